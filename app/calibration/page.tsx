@@ -0,0 +1,223 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Activity, CheckCircle2, XCircle } from 'lucide-react';
+import { getProtocol } from '@/lib/protocols';
+import { getPendingSetupStep, loadSetupResults } from '@/lib/session';
+import {
+  assessTimingReport,
+  createTimingReport,
+  measureEventLatency,
+  measureFrameIntervals,
+  measureTimerResolution,
+} from '@/lib/timing';
+import { ExperimentProtocol, TimingReport } from '@/types';
+
+const FRAME_SAMPLES = 120;
+const LATENCY_SAMPLES = 5;
+
+interface MetricRow {
+  label: string;
+  value: string;
+  limit?: string;
+  passed: boolean;
+}
+
+function describeReport(report: TimingReport, protocol: ExperimentProtocol | null): MetricRow[] {
+  const requirements = protocol?.timingRequirements ?? {};
+  return [
+    {
+      label: 'Refresh rate',
+      value: `${Math.round(report.refreshRate)} Hz`,
+      limit: requirements.minRefreshRate !== undefined ? `≥ ${requirements.minRefreshRate} Hz` : undefined,
+      passed: report.refreshRate >= (requirements.minRefreshRate ?? 0),
+    },
+    {
+      label: 'Frame jitter',
+      value: `${report.frameJitter.toFixed(1)} ms`,
+      limit: requirements.maxFrameJitter !== undefined ? `≤ ${requirements.maxFrameJitter} ms` : undefined,
+      passed: report.frameJitter <= (requirements.maxFrameJitter ?? Infinity),
+    },
+    {
+      label: 'Dropped frames',
+      value: `${Math.round(report.droppedFrameRate * 100)}%`,
+      limit:
+        requirements.maxDroppedFrameRate !== undefined
+          ? `≤ ${Math.round(requirements.maxDroppedFrameRate * 100)}%`
+          : undefined,
+      passed: report.droppedFrameRate <= (requirements.maxDroppedFrameRate ?? 1),
+    },
+    {
+      label: 'Clock resolution',
+      value: `${report.timerResolution.toFixed(3)} ms`,
+      limit: requirements.maxTimerResolution !== undefined ? `≤ ${requirements.maxTimerResolution} ms` : undefined,
+      passed: report.timerResolution <= (requirements.maxTimerResolution ?? Infinity),
+    },
+    {
+      label: 'Input latency',
+      value: `${report.eventLatency.toFixed(1)} ms`,
+      limit: requirements.maxEventLatency !== undefined ? `≤ ${requirements.maxEventLatency} ms` : undefined,
+      passed: report.eventLatency <= (requirements.maxEventLatency ?? Infinity),
+    },
+  ];
+}
+
+export default function CalibrationPage() {
+  const router = useRouter();
+  const [protocol, setProtocol] = useState<ExperimentProtocol | null>(null);
+  const [hasSession, setHasSession] = useState(false);
+  const [frameIntervals, setFrameIntervals] = useState<number[] | null>(null);
+  const [timerResolution, setTimerResolution] = useState<number | null>(null);
+  const [latencies, setLatencies] = useState<number[]>([]);
+  const [report, setReport] = useState<TimingReport | null>(null);
+
+  // Display and clock measurements need no input from the participant
+  useEffect(() => {
+    const storedProtocolId = sessionStorage.getItem('stroop_protocol_id');
+    let cancelled = false;
+
+    measureFrameIntervals(FRAME_SAMPLES).then((intervals) => {
+      if (cancelled) return;
+      setHasSession(sessionStorage.getItem('stroop_session_id') !== null);
+      setProtocol(storedProtocolId ? getProtocol(storedProtocolId) : null);
+      setFrameIntervals(intervals);
+      setTimerResolution(measureTimerResolution());
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const recordLatency = useCallback(
+    (event: Event) => {
+      if (!frameIntervals || timerResolution === null || report) return;
+      const next = [...latencies, measureEventLatency(event)];
+      setLatencies(next);
+
+      if (next.length >= LATENCY_SAMPLES) {
+        const timingReport = createTimingReport(frameIntervals, timerResolution, next);
+        sessionStorage.setItem('stroop_timing_report', JSON.stringify(timingReport));
+        setReport(timingReport);
+      }
+    },
+    [frameIntervals, latencies, report, timerResolution]
+  );
+
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      if (event.key === ' ' && !event.repeat) {
+        event.preventDefault();
+        recordLatency(event);
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [recordLatency]);
+
+  const failures =
+    report && protocol?.timingRequirements
+      ? assessTimingReport(report, protocol.timingRequirements)
+      : [];
+  const blocked = failures.length > 0 && protocol?.timingRequirements?.blockOnFailure === true;
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-card border border-border rounded-xl p-8 w-full max-w-md text-center"
+      >
+        <div className="flex items-center justify-center gap-2 mb-3">
+          <Activity className="w-6 h-6 text-emerald-400" />
+          <h1 className="text-2xl font-bold">Timing Check</h1>
+        </div>
+
+        {!frameIntervals ? (
+          <p className="text-muted">Measuring your display… keep this tab in front.</p>
+        ) : !report ? (
+          <>
+            <p className="text-muted mb-6">
+              Press the <strong className="text-foreground">Space</strong> bar or tap the
+              button {LATENCY_SAMPLES} times.
+            </p>
+            <motion.button
+              whileTap={{ scale: 0.95 }}
+              onPointerDown={(event) => recordLatency(event.nativeEvent)}
+              className="w-24 h-24 rounded-full bg-emerald-400 text-zinc-900 font-bold text-2xl"
+            >
+              {latencies.length}/{LATENCY_SAMPLES}
+            </motion.button>
+          </>
+        ) : (
+          <>
+            <table className="w-full text-sm mb-6">
+              <tbody>
+                {describeReport(report, protocol).map((row) => (
+                  <tr key={row.label} className="border-b border-border last:border-0">
+                    <td className="py-2 text-left text-muted">{row.label}</td>
+                    <td className="py-2 text-right font-mono">{row.value}</td>
+                    <td className="py-2 pl-3 text-right text-xs text-muted">{row.limit}</td>
+                    <td className="py-2 pl-2 w-6">
+                      {row.passed ? (
+                        <CheckCircle2 className="w-4 h-4 text-emerald-400" />
+                      ) : (
+                        <XCircle className="w-4 h-4 text-rose-500" />
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {failures.length > 0 && (
+              <div className="text-left text-sm mb-6">
+                <p className="font-semibold mb-1">
+                  {blocked
+                    ? 'Your browser cannot run this experiment with reliable timing:'
+                    : 'Timing is below what this experiment recommends:'}
+                </p>
+                <ul className="list-disc pl-5 text-muted">
+                  {failures.map((failure) => (
+                    <li key={failure}>{failure}</li>
+                  ))}
+                </ul>
+                <p className="text-muted mt-2">
+                  Close other tabs, plug in your laptop and use a desktop browser, then
+                  reload this page to measure again.
+                </p>
+              </div>
+            )}
+
+            {hasSession && !blocked ? (
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() =>
+                  router.push(
+                    (protocol && getPendingSetupStep(protocol, loadSetupResults())) ??
+                      '/experiment'
+                  )
+                }
+                className="px-6 py-3 bg-emerald-400 text-zinc-900 font-bold rounded-xl
+                           transition-colors hover:bg-emerald-300"
+              >
+                Continue to Experiment
+              </motion.button>
+            ) : (
+              <button
+                onClick={() => router.push('/')}
+                className="px-6 py-3 bg-card border border-border rounded-xl
+                           text-muted hover:text-foreground transition-colors"
+              >
+                Back to Home
+              </button>
+            )}
+          </>
+        )}
+      </motion.div>
+    </main>
+  );
+}
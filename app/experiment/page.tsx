@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { use, useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { AnimatePresence, motion } from 'framer-motion';
 import { v4 as uuidv4 } from 'uuid';
@@ -8,22 +8,62 @@ import { RotateCcw } from 'lucide-react';
 import { TrialDisplay } from '@/components/trial-display';
 import { ResponseButtons } from '@/components/response-buttons';
 import { ProgressBar } from '@/components/progress-bar';
-import { generateTrials, isCorrectResponse } from '@/lib/experiment';
-import { getTimestamp, calculateReactionTime } from '@/lib/timing';
+import { TrialFeedback } from '@/components/trial-feedback';
+import { FixationCross } from '@/components/fixation-cross';
+import { Interstitial } from '@/components/interstitial';
+import { RestBreak } from '@/components/rest-break';
+import {
+  createExperimentState,
+  experimentReducer,
+  getResponseStage,
+  getStatusDuration,
+  resumeExperimentState,
+} from '@/lib/experiment-state';
+import { getBlocks, getResponseMapping } from '@/lib/protocols';
+import { getResponses, getScoredResults, summarizeBlocks } from '@/lib/analysis';
+import {
+  createSessionRecord,
+  getPendingSetupStep,
+  getSessionProtocol,
+  loadExperimentState,
+  loadSetupResults,
+  saveExperimentState,
+  saveSessionOutcome,
+  saveSessionRecord,
+  updateSessionRecord,
+} from '@/lib/session';
+import { getFrameDuration, getTimestamp } from '@/lib/timing';
+import { getDeviceInfo, getDisplaySize, resolveResponseLayout } from '@/lib/device';
+import {
+  getDelayedComponent,
+  getExposureFrames,
+  getMaskPattern,
+  getStimulusFont,
+  getStimulusRendering,
+} from '@/lib/stimulus';
+import { getStimulusFontSize, measureCapHeightRatio } from '@/lib/visual-angle';
 import { supabase } from '@/lib/supabase';
-import { Trial, TrialResult, ColorKey } from '@/types';
+import {
+  COLORS,
+  ColorKey,
+  ExperimentState,
+  ResponseInput,
+  ResponseLayout,
+  StimulusOffset,
+  StimulusOnset,
+} from '@/types';
 
-const TOTAL_TRIALS = 20;
-const INTER_TRIAL_DELAY = 500; // ms between trials
+interface ExperimentPageProps {
+  searchParams: Promise<{ protocol?: string }>;
+}
 
-export default function ExperimentPage() {
+export default function ExperimentPage({ searchParams }: ExperimentPageProps) {
   const router = useRouter();
-  const [sessionId, setSessionId] = useState<string | null>(null);
-  const [trials, setTrials] = useState<Trial[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isWaiting, setIsWaiting] = useState(false);
-  const [results, setResults] = useState<TrialResult[]>([]);
-  const startTimeRef = useRef<number>(0);
+  const { protocol: requestedProtocolId } = use(searchParams);
+  const [session, setSession] = useState<{
+    state: ExperimentState;
+    responseLayout: ResponseLayout;
+  } | null>(null);
 
   useEffect(() => {
     const storedSessionId = sessionStorage.getItem('stroop_session_id');
@@ -31,117 +71,444 @@ export default function ExperimentPage() {
       router.push('/');
       return;
     }
-    setSessionId(storedSessionId);
-    setTrials(generateTrials());
-  }, [router]);
+    // A session under way keeps its protocol; a link to another one mustn't
+    // start over under the same session id
+    const saved = loadExperimentState(storedSessionId);
+    const activeProtocol = getSessionProtocol(
+      saved?.protocolId ?? requestedProtocolId ?? sessionStorage.getItem('stroop_protocol_id'),
+      storedSessionId
+    );
+    sessionStorage.setItem('stroop_protocol_id', activeProtocol.id);
+    const setupResults = loadSetupResults();
+    const pendingStep = getPendingSetupStep(activeProtocol, setupResults);
+    if (pendingStep) {
+      router.push(pendingStep);
+      return;
+    }
+    const device = getDeviceInfo();
+    const layout = resolveResponseLayout(activeProtocol, device);
+    if (saved?.isComplete) {
+      router.push('/results');
+      return;
+    }
 
-  useEffect(() => {
-    if (trials.length > 0 && currentIndex < trials.length && !isWaiting) {
-      startTimeRef.current = getTimestamp();
+    // A reload mid-session continues the saved sequence instead of starting over
+    if (saved) {
+      setSession({ state: resumeExperimentState(saved, getTimestamp()), responseLayout: layout });
+      return;
     }
-  }, [currentIndex, trials.length, isWaiting]);
+
+    saveSessionRecord(
+      createSessionRecord(storedSessionId, activeProtocol, {
+        ...setupResults,
+        device,
+        responseLayout: layout,
+      })
+    );
+    setSession({
+      state: createExperimentState(storedSessionId, activeProtocol, getTimestamp()),
+      responseLayout: layout,
+    });
+  }, [router, requestedProtocolId]);
 
   const handleRestart = useCallback(() => {
+    if (!session) return;
     const newSessionId = uuidv4();
     sessionStorage.setItem('stroop_session_id', newSessionId);
-    setSessionId(newSessionId);
-    setTrials(generateTrials());
-    setCurrentIndex(0);
-    setResults([]);
-    setIsWaiting(false);
-  }, []);
+    // A new participant may get a different key assignment
+    const sessionProtocol = getSessionProtocol(session.state.protocolId, newSessionId);
+    saveSessionRecord(
+      createSessionRecord(newSessionId, sessionProtocol, {
+        ...loadSetupResults(),
+        device: getDeviceInfo(),
+        responseLayout: session.responseLayout,
+      })
+    );
+    setSession({
+      ...session,
+      state: createExperimentState(newSessionId, sessionProtocol, getTimestamp()),
+    });
+  }, [session]);
 
-  const handleResponse = useCallback(
-    async (response: ColorKey) => {
-      if (isWaiting || !sessionId || currentIndex >= trials.length) return;
-
-      const reactionTime = calculateReactionTime(startTimeRef.current);
-      const currentTrial = trials[currentIndex];
-      const correct = isCorrectResponse(currentTrial, response);
-
-      const result: TrialResult = {
-        session_id: sessionId,
-        word_text: currentTrial.wordText,
-        font_color: currentTrial.fontColor,
-        is_congruent: currentTrial.isCongruent,
-        reaction_time_ms: reactionTime,
-        user_response: response,
-        is_correct: correct,
-      };
-
-      // Store result locally
-      const newResults = [...results, result];
-      setResults(newResults);
-
-      // Save to Supabase (non-blocking)
+  if (!session) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="text-muted">Loading...</div>
+      </main>
+    );
+  }
+
+  // Keyed by session, so a restart starts from fresh state with no timers left over
+  return (
+    <ExperimentSession
+      key={session.state.sessionId}
+      initialState={session.state}
+      responseLayout={session.responseLayout}
+      onRestart={handleRestart}
+    />
+  );
+}
+
+interface ExperimentSessionProps {
+  initialState: ExperimentState;
+  responseLayout: ResponseLayout;
+  onRestart: () => void;
+}
+
+/**
+ * Renders the session's state and runs the timers its statuses need
+ */
+function ExperimentSession({ initialState, responseLayout, onRestart }: ExperimentSessionProps) {
+  const router = useRouter();
+  const [state, dispatch] = useReducer(experimentReducer, initialState);
+  const { sessionId, protocolId, status, trials, results, phase, currentTrialIndex } = state;
+  const protocol = useMemo(
+    () => getSessionProtocol(protocolId, sessionId),
+    [protocolId, sessionId]
+  );
+  // Sized from the screen calibration when the protocol sets a visual angle
+  const stimulusFontSize = useMemo(() => {
+    const font = getStimulusFont(protocol);
+    return getStimulusFontSize(
+      protocol,
+      loadSetupResults().displayCalibration,
+      measureCapHeightRatio(font.family ?? getComputedStyle(document.body).fontFamily, font.weight)
+    );
+  }, [protocol]);
+  // Frame-counted durations use the refresh rate from /calibration
+  const [frameDuration] = useState(() =>
+    getFrameDuration(loadSetupResults().timingReport?.refreshRate)
+  );
+  const exposureFrames = useMemo(
+    () => getExposureFrames(protocol, frameDuration),
+    [protocol, frameDuration]
+  );
+  // Results already sent to Supabase, including those restored on resume
+  const storedResultsRef = useRef(initialState.results.length);
+  const [isFullscreen, setIsFullscreen] = useState(() => document.fullscreenElement !== null);
+
+  // Save progress as it changes so a reload can resume
+  useEffect(() => {
+    saveExperimentState(state);
+  }, [state]);
+
+  // Save new results to Supabase (non-blocking)
+  useEffect(() => {
+    const unsaved = results.slice(storedResultsRef.current);
+    storedResultsRef.current = results.length;
+    unsaved.forEach((result) => {
       supabase.from('stroop_results').insert(result).then(({ error }) => {
         if (error) {
           console.error('Failed to save result:', error);
         }
       });
+    });
+  }, [results]);
 
-      // Show inter-trial blank
-      setIsWaiting(true);
-
-      if (currentIndex + 1 >= TOTAL_TRIALS) {
-        // Experiment complete - save results to sessionStorage and navigate
-        sessionStorage.setItem('stroop_results', JSON.stringify(newResults));
-        setTimeout(() => {
-          router.push('/results');
-        }, INTER_TRIAL_DELAY);
-      } else {
-        // Move to next trial after delay
-        setTimeout(() => {
-          setCurrentIndex((prev) => prev + 1);
-          setIsWaiting(false);
-        }, INTER_TRIAL_DELAY);
+  // Experiment complete - save results to sessionStorage and navigate
+  useEffect(() => {
+    if (status !== 'complete') return;
+    sessionStorage.setItem('stroop_results', JSON.stringify(results));
+    saveSessionOutcome(sessionId, protocol, results);
+    router.push('/results');
+  }, [protocol, results, router, sessionId, status]);
+
+  // Track time away from the task: another tab or window, or leaving fullscreen.
+  // Leaving fullscreen is also recorded, and pauses a running trial, when the
+  // protocol requires it; one listener dispatches both so the absence is
+  // always settled before the trial is paused.
+  const requireFullscreen = protocol.requireFullscreen ?? false;
+  useEffect(() => {
+    let wasFullscreen = document.fullscreenElement !== null;
+    let leftFullscreen = false;
+    const updateFocus = () => {
+      const away = document.hidden || !document.hasFocus() || leftFullscreen;
+      dispatch({ type: away ? 'focus-lost' : 'focus-regained', at: getTimestamp() });
+    };
+    const handleFullscreenChange = () => {
+      const isNowFullscreen = document.fullscreenElement !== null;
+      if (isNowFullscreen !== wasFullscreen) leftFullscreen = !isNowFullscreen;
+      wasFullscreen = isNowFullscreen;
+      updateFocus();
+      if (!requireFullscreen) return;
+      setIsFullscreen(isNowFullscreen);
+      if (!isNowFullscreen) {
+        dispatch({
+          type: 'fullscreen-exited',
+          at: getTimestamp(),
+          timestamp: new Date().toISOString(),
+        });
       }
-    },
-    [currentIndex, isWaiting, results, router, sessionId, trials]
-  );
+    };
+    document.addEventListener('visibilitychange', updateFocus);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    window.addEventListener('blur', updateFocus);
+    window.addEventListener('focus', updateFocus);
+    return () => {
+      document.removeEventListener('visibilitychange', updateFocus);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      window.removeEventListener('blur', updateFocus);
+      window.removeEventListener('focus', updateFocus);
+    };
+  }, [requireFullscreen]);
 
-  if (!sessionId || trials.length === 0) {
-    return (
-      <main className="min-h-screen flex items-center justify-center">
-        <div className="text-muted">Loading...</div>
-      </main>
+  // Window and screen size as each block starts, so stimulus size can be reconstructed
+  const isRunningTrial = getResponseStage(status) !== null;
+  const blockIndex = trials[currentTrialIndex].blockIndex;
+  useEffect(() => {
+    if (!isRunningTrial) return;
+    dispatch({
+      type: 'display-measured',
+      display: getDisplaySize(),
+      timestamp: new Date().toISOString(),
+    });
+  }, [blockIndex, isRunningTrial, phase]);
+
+  const { fullscreenExits, blockDisplays } = state;
+  useEffect(() => {
+    if (fullscreenExits.length === 0 && blockDisplays.length === 0) return;
+    updateSessionRecord(sessionId, {
+      fullscreen_exits: fullscreenExits,
+      block_displays: blockDisplays,
+    });
+  }, [blockDisplays, fullscreenExits, sessionId]);
+
+  // Advance timed statuses (fixation, blank, feedback, interval) when their time is up
+  const duration = getStatusDuration(protocol, state);
+  const enteredAt = state.transitions[state.transitions.length - 1].at;
+  useEffect(() => {
+    if (duration === null) return;
+    const remaining = duration - (getTimestamp() - enteredAt);
+    const timeout = setTimeout(
+      () => dispatch({ type: 'timer', at: getTimestamp() }),
+      Math.max(0, remaining)
     );
-  }
+    return () => clearTimeout(timeout);
+  }, [duration, enteredAt]);
+
+  // Record a miss when the response deadline passes without a response.
+  // The deadline runs from the painted onset, not from when it was reported.
+  const deadline = protocol.responseDeadline?.duration;
+  const onsetTimestamp = status === 'stimulus' ? state.onset?.timestamp : undefined;
+  useEffect(() => {
+    if (deadline === undefined || onsetTimestamp === undefined) return;
+    const remaining = deadline - (getTimestamp() - onsetTimestamp);
+    const timeout = setTimeout(
+      () => dispatch({ type: 'deadline', at: getTimestamp() }),
+      Math.max(0, remaining)
+    );
+    return () => clearTimeout(timeout);
+  }, [deadline, onsetTimestamp]);
 
-  const currentTrial = trials[currentIndex];
+  const handleContinue = useCallback(() => dispatch({ type: 'continue', at: getTimestamp() }), []);
+
+  const handleEnterFullscreen = useCallback(() => {
+    document.documentElement
+      .requestFullscreen()
+      .then(() => {
+        if (status === 'fullscreen') handleContinue();
+      })
+      .catch((error) => console.error('Failed to enter fullscreen:', error));
+  }, [handleContinue, status]);
+
+  const handleOnset = useCallback(
+    (onset: StimulusOnset) => dispatch({ type: 'onset', onset, at: getTimestamp() }),
+    []
+  );
+
+  const handleOffset = useCallback(
+    (offset: StimulusOffset) => dispatch({ type: 'offset', offset }),
+    []
+  );
+
+  const handleResponse = useCallback(
+    (response: ColorKey, input: ResponseInput) =>
+      dispatch({ type: 'press', response, input, at: getTimestamp() }),
+    []
+  );
+
+  const currentTrial = trials[currentTrialIndex];
+  const totalBlocks = getBlocks(protocol).length;
+  // A rest break follows the block of the trial just finished
+  const restAfterBlock = status === 'rest' ? currentTrial.blockIndex : null;
+  const restSummary =
+    restAfterBlock !== null && protocol.restBreak?.showSummary
+      ? summarizeBlocks(getResponses(getScoredResults(results))).find(
+          (b) => b.blockIndex === restAfterBlock
+        )
+      : undefined;
+  const { feedback, practiceOutcome } = state;
+  // Back at the fullscreen gate after leaving fullscreen during a trial
+  const isPaused = status === 'fullscreen' && fullscreenExits.length > 0;
+  // Trial shown next: the one that was cut off, or the one after an answered trial
+  const nextTrialLabel =
+    `${phase === 'practice' ? 'Practice' : 'Trial'} ${currentTrialIndex + 1} of ` +
+    `${trials.length} ${state.interrupted ? 'starts over' : 'is next'}`;
 
   return (
-    <main className="min-h-screen flex flex-col items-center justify-center p-8">
+    <main
+      className="min-h-screen flex flex-col items-center justify-center p-8"
+      style={{ background: protocol.stimulusStyle?.background }}
+    >
       <div className="fixed top-8 left-1/2 -translate-x-1/2 w-full max-w-md px-4">
-        <ProgressBar current={currentIndex + 1} total={TOTAL_TRIALS} />
+        <ProgressBar
+          current={currentTrialIndex + 1}
+          total={trials.length}
+          label={phase === 'practice' ? 'Practice' : 'Trial'}
+        />
+        {phase === 'main' && totalBlocks > 1 && (
+          <div className="mt-2 text-center text-xs text-muted">
+            Block {currentTrial.blockIndex + 1} of {totalBlocks}
+          </div>
+        )}
       </div>
 
-      <div className="flex-1 flex flex-col items-center justify-center gap-16 w-full">
-        <div className="h-32 flex items-center justify-center">
-          <AnimatePresence mode="wait">
-            {!isWaiting && currentTrial && (
-              <TrialDisplay key={currentTrial.id} trial={currentTrial} />
-            )}
-          </AnimatePresence>
+      {requireFullscreen && (!isFullscreen || status === 'fullscreen') ? (
+        <div className="flex-1 flex items-center justify-center w-full">
+          <Interstitial
+            title={isPaused ? 'Paused' : 'Fullscreen required'}
+            message={
+              isPaused
+                ? `You left fullscreen, so the experiment is paused. ${nextTrialLabel} when ` +
+                  'you return.'
+                : 'This experiment runs in fullscreen so nothing else is on screen. ' +
+                  'Leaving fullscreen pauses it.'
+            }
+            continueLabel={isPaused ? 'Resume in Fullscreen' : 'Enter Fullscreen'}
+            onContinue={handleEnterFullscreen}
+          />
+        </div>
+      ) : status === 'resuming' ? (
+        <div className="flex-1 flex items-center justify-center w-full">
+          <Interstitial
+            title="Welcome back"
+            message={`Your session was interrupted and continues where it stopped. ${nextTrialLabel}.`}
+            continueLabel="Resume"
+            onContinue={handleContinue}
+          />
+        </div>
+      ) : status === 'instructions' ? (
+        <div className="flex-1 flex items-center justify-center w-full">
+          <Interstitial
+            title="Your response keys"
+            message="Rest your fingers on these keys and press the one for the font color."
+            continueLabel={protocol.practice ? 'Start Practice' : 'Start Experiment'}
+            onContinue={handleContinue}
+          >
+            <div className="flex justify-center gap-3 mb-6">
+              {getResponseMapping(protocol).map(({ color, key }) => (
+                <div key={color} className="flex flex-col items-center gap-1">
+                  <kbd
+                    className="w-12 h-12 flex items-center justify-center rounded-lg
+                               font-bold text-xl text-zinc-900"
+                    style={{ backgroundColor: COLORS[color].hex }}
+                  >
+                    {key.toUpperCase()}
+                  </kbd>
+                  <span className="text-xs text-muted capitalize">{COLORS[color].name}</span>
+                </div>
+              ))}
+            </div>
+          </Interstitial>
+        </div>
+      ) : restAfterBlock !== null ? (
+        <div className="flex-1 flex items-center justify-center w-full">
+          <RestBreak
+            key={restAfterBlock}
+            completedBlocks={restAfterBlock + 1}
+            totalBlocks={totalBlocks}
+            summary={restSummary}
+            minDuration={protocol.restBreak?.minDuration}
+            onContinue={handleContinue}
+          />
         </div>
+      ) : status === 'practice-outcome' && practiceOutcome ? (
+        <div className="flex-1 flex items-center justify-center w-full">
+          <Interstitial
+            title={practiceOutcome.passed ? 'Practice complete' : "Let's practice again"}
+            message={
+              practiceOutcome.passed
+                ? `You got ${Math.round(practiceOutcome.accuracy * 100)}% right. ` +
+                  'The real experiment starts now - there will be no more feedback.'
+                : `You got ${Math.round(practiceOutcome.accuracy * 100)}% right. ` +
+                  'Remember to respond to the font color, not the word.'
+            }
+            continueLabel={practiceOutcome.passed ? 'Start Experiment' : 'Practice Again'}
+            onContinue={handleContinue}
+          />
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center gap-16 w-full">
+          <div className="h-32 flex items-center justify-center">
+            {status === 'fixation' && <FixationCross />}
+            <AnimatePresence mode="wait">
+              {feedback ? (
+                <TrialFeedback
+                  key="feedback"
+                  correct={feedback.correct}
+                  timedOut={feedback.timedOut}
+                  correctColor={feedback.color}
+                />
+              ) : (
+                status === 'stimulus' && (
+                  <TrialDisplay
+                    key={currentTrial.id}
+                    trial={currentTrial}
+                    rendering={getStimulusRendering(protocol, currentTrial)}
+                    animate={protocol.animateStimulus ?? true}
+                    onOnset={handleOnset}
+                    frameDuration={frameDuration}
+                    fontSize={stimulusFontSize}
+                    exposure={exposureFrames}
+                    mask={
+                      protocol.exposure?.mask === 'pattern'
+                        ? getMaskPattern(protocol, currentTrial)
+                        : null
+                    }
+                    onOffset={handleOffset}
+                    delay={getDelayedComponent(currentTrial, frameDuration)}
+                  />
+                )
+              )}
+            </AnimatePresence>
+          </div>
 
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.2 }}
-        >
-          <ResponseButtons onResponse={handleResponse} disabled={isWaiting} />
-        </motion.div>
-      </div>
+          {responseLayout === 'touch' ? (
+            // Fixed zones must not sit inside a transformed (animated) parent
+            <ResponseButtons
+              protocol={protocol}
+              layout="touch"
+              onResponse={handleResponse}
+              disabled={status !== 'stimulus'}
+            />
+          ) : (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 }}
+            >
+              <ResponseButtons
+                protocol={protocol}
+                onResponse={handleResponse}
+                disabled={status !== 'stimulus'}
+              />
+            </motion.div>
+          )}
+        </div>
+      )}
 
-      <div className="fixed bottom-8 flex flex-col items-center gap-4">
+      <div
+        className={`fixed flex flex-col items-center gap-4
+          ${responseLayout === 'touch' ? 'top-20' : 'bottom-8'}`}
+      >
         <span className="text-sm text-muted">
-          Press the button matching the <strong>font color</strong>
+          {responseLayout === 'touch' ? 'Tap the zone' : 'Press the button'} matching the{' '}
+          <strong>font color</strong>
         </span>
         <motion.button
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
-          onClick={handleRestart}
+          onClick={onRestart}
           className="flex items-center gap-2 px-4 py-2 text-sm text-muted
                      hover:text-foreground transition-colors"
         >
@@ -1,17 +1,41 @@
 'use client';
 
+import { Fragment, use, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { v4 as uuidv4 } from 'uuid';
 import { Beaker, Keyboard } from 'lucide-react';
+import {
+  PROTOCOLS,
+  getProtocol,
+  getBlocks,
+  getResponseMapping,
+  estimateDurationMinutes,
+} from '@/lib/protocols';
+import { clearSetupResults, getPendingSetupStep, loadSetupResults } from '@/lib/session';
+import { COLORS } from '@/types';
 
-export default function HomePage() {
+interface HomePageProps {
+  searchParams: Promise<{ protocol?: string }>;
+}
+
+export default function HomePage({ searchParams }: HomePageProps) {
   const router = useRouter();
+  const { protocol: requestedProtocolId } = use(searchParams);
+  const [protocolId, setProtocolId] = useState(() => getProtocol(requestedProtocolId).id);
+  const protocol = getProtocol(protocolId);
+  const responseMapping = getResponseMapping(protocol);
+  // Counterbalanced keys are only known once the session id is
+  const keysAssignedAtStart = (protocol.responseKeys?.counterbalance ?? 'none') !== 'none';
+  const blockCount = getBlocks(protocol).length;
 
   const handleStart = () => {
     const sessionId = uuidv4();
     sessionStorage.setItem('stroop_session_id', sessionId);
-    router.push('/experiment');
+    sessionStorage.setItem('stroop_protocol_id', protocol.id);
+    clearSetupResults();
+    // Protocols with timing requirements or color screening check those first
+    router.push(getPendingSetupStep(protocol, loadSetupResults()) ?? '/experiment');
   };
 
   return (
@@ -61,14 +85,54 @@ export default function HomePage() {
 
           <div className="flex items-center gap-2 mt-6 pt-4 border-t border-border text-sm text-muted">
             <Keyboard className="w-4 h-4" />
-            <span>
-              Keyboard shortcuts: <kbd className="px-1.5 py-0.5 bg-background rounded text-foreground">Y</kbd> Yellow,{' '}
-              <kbd className="px-1.5 py-0.5 bg-background rounded text-foreground">G</kbd> Green,{' '}
-              <kbd className="px-1.5 py-0.5 bg-background rounded text-foreground">R</kbd> Red
-            </span>
+            {keysAssignedAtStart ? (
+              <span>
+                Response keys:{' '}
+                {responseMapping.map(({ key }) => (
+                  <Fragment key={key}>
+                    <kbd className="px-1.5 py-0.5 bg-background rounded text-foreground">
+                      {key.toUpperCase()}
+                    </kbd>{' '}
+                  </Fragment>
+                ))}
+                - you will see which color goes with each key before you start
+              </span>
+            ) : (
+              <span>
+                Keyboard shortcuts:{' '}
+                {responseMapping.map(({ color, key }, index) => (
+                  <Fragment key={color}>
+                    <kbd className="px-1.5 py-0.5 bg-background rounded text-foreground">
+                      {key.toUpperCase()}
+                    </kbd>{' '}
+                    <span className="capitalize">{COLORS[color].name}</span>
+                    {index < responseMapping.length - 1 ? ', ' : ''}
+                  </Fragment>
+                ))}
+              </span>
+            )}
           </div>
         </div>
 
+        {PROTOCOLS.length > 1 && (
+          <div className="flex flex-wrap justify-center gap-2 mb-8">
+            {PROTOCOLS.map((p) => (
+              <button
+                key={p.id}
+                onClick={() => setProtocolId(p.id)}
+                title={p.description}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all
+                  ${protocolId === p.id
+                    ? 'bg-emerald-400 text-zinc-900'
+                    : 'bg-card border border-border text-muted hover:text-foreground hover:border-emerald-400/50'
+                  }`}
+              >
+                {p.name}
+              </button>
+            ))}
+          </div>
+        )}
+
         <motion.button
           whileHover={{ scale: 1.02 }}
           whileTap={{ scale: 0.98 }}
@@ -80,7 +144,8 @@ export default function HomePage() {
         </motion.button>
 
         <p className="mt-6 text-sm text-muted">
-          20 trials • Takes about 2 minutes
+          {protocol.totalTrials} trials
+          {blockCount > 1 && ` in ${blockCount} blocks with rest breaks`} • Takes about {estimateDurationMinutes(protocol)} minutes
         </p>
       </motion.div>
     </main>
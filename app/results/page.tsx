@@ -9,8 +9,27 @@ import { DistributionChart } from '@/components/charts/distribution-chart';
 import { SpaghettiChart } from '@/components/charts/spaghetti-chart';
 import { DifferenceChart } from '@/components/charts/difference-chart';
 import { SpeedAccuracyChart } from '@/components/charts/speed-accuracy-chart';
-import { TrialResult, ResultsSummary } from '@/types';
+import { SoaChart } from '@/components/charts/soa-chart';
+import { COLORS, TrialResult, ResultsSummary, ColorKey, ColorScreeningResult } from '@/types';
 import { calculateAverage } from '@/lib/timing';
+import {
+  formatCongruencyContext,
+  formatSoa,
+  getCondition,
+  getResponses,
+  getScoredResults,
+  getPrimaryModality,
+  hasExcessFocusLoss,
+  isAnticipated,
+  isFocusLost,
+  isMiss,
+  summarizeBlocks,
+  summarizeByCongruency,
+  summarizeBySoa,
+} from '@/lib/analysis';
+import { getProtocol } from '@/lib/protocols';
+import { isExcludedByScreening } from '@/lib/screening';
+import { loadSetupResults } from '@/lib/session';
 import { RotateCcw, TrendingUp, Target, Clock, Trash2, Database } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 
@@ -23,33 +42,59 @@ const VISUALIZATION_TABS = [
 ];
 
 function calculateSummary(results: TrialResult[]): ResultsSummary {
-  const congruentTimes = results
-    .filter((r) => r.is_congruent && r.is_correct)
+  // Misses, anticipations and focus losses are counted on their own, not as errors
+  const responses = getResponses(results);
+
+  const congruentTimes = responses
+    .filter((r) => getCondition(r) === 'congruent' && r.is_correct)
+    .map((r) => r.reaction_time_ms);
+
+  const incongruentTimes = responses
+    .filter((r) => getCondition(r) === 'incongruent' && r.is_correct)
     .map((r) => r.reaction_time_ms);
 
-  const incongruentTimes = results
-    .filter((r) => !r.is_congruent && r.is_correct)
+  const neutralTimes = responses
+    .filter((r) => getCondition(r) === 'neutral' && r.is_correct)
     .map((r) => r.reaction_time_ms);
 
   const congruentAvg = calculateAverage(congruentTimes);
   const incongruentAvg = calculateAverage(incongruentTimes);
-  const correctTrials = results.filter((r) => r.is_correct).length;
+  const neutralAvg = neutralTimes.length > 0 ? calculateAverage(neutralTimes) : null;
+  const correctTrials = responses.filter((r) => r.is_correct).length;
 
   return {
     congruentAvg,
     incongruentAvg,
+    neutralAvg,
     stroopEffect: incongruentAvg - congruentAvg,
+    interferenceEffect: neutralAvg === null ? null : incongruentAvg - neutralAvg,
+    facilitationEffect: neutralAvg === null ? null : neutralAvg - congruentAvg,
     totalTrials: results.length,
     correctTrials,
-    accuracy: (correctTrials / results.length) * 100,
+    missedTrials: results.filter(isMiss).length,
+    anticipatedTrials: results.filter(isAnticipated).length,
+    focusLostTrials: results.filter(isFocusLost).length,
+    accuracy: responses.length > 0 ? (correctTrials / responses.length) * 100 : 0,
   };
 }
 
+function formatSignedMs(ms: number): string {
+  return `${ms > 0 ? '+' : ''}${Math.round(ms)}ms`;
+}
+
 export default function ResultsPage() {
   const router = useRouter();
   const [summary, setSummary] = useState<ResultsSummary | null>(null);
   const [results, setResults] = useState<TrialResult[]>([]);
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const [colors, setColors] = useState<ColorKey[]>(() => getProtocol().stimulusSet);
+  // Failed color screening, and whether the protocol excludes the session for it
+  const [screeningFailure, setScreeningFailure] = useState<{
+    result: ColorScreeningResult;
+    excluded: boolean;
+  } | null>(null);
+  // More trials lost to focus loss than the protocol allows
+  const [isInattentive, setIsInattentive] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
   const [isClearingAll, setIsClearingAll] = useState(false);
   const [activeTab, setActiveTab] = useState('grouped');
@@ -62,12 +107,23 @@ export default function ResultsPage() {
       return;
     }
 
+    const protocol = getProtocol(sessionStorage.getItem('stroop_protocol_id'));
+    const { colorScreening } = loadSetupResults();
     setSessionId(storedSessionId);
+    setColors(protocol.stimulusSet);
+    if (colorScreening && !colorScreening.passed) {
+      setScreeningFailure({
+        result: colorScreening,
+        excluded: isExcludedByScreening(protocol, colorScreening),
+      });
+    }
 
     try {
-      const parsedResults: TrialResult[] = JSON.parse(storedResults);
-      setResults(parsedResults);
-      setSummary(calculateSummary(parsedResults));
+      // Practice trials are stored with the session but never analysed
+      const scoredResults = getScoredResults(JSON.parse(storedResults) as TrialResult[]);
+      setResults(scoredResults);
+      setSummary(calculateSummary(scoredResults));
+      setIsInattentive(hasExcessFocusLoss(protocol, scoredResults));
     } catch {
       router.push('/');
     }
@@ -94,6 +150,7 @@ export default function ResultsPage() {
         .from('stroop_results')
         .delete()
         .eq('session_id', sessionId);
+      await supabase.from('stroop_sessions').delete().eq('session_id', sessionId);
 
       if (error) {
         console.error('Failed to clear results:', error);
@@ -128,6 +185,10 @@ export default function ResultsPage() {
         .from('stroop_results')
         .delete()
         .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all rows
+      await supabase
+        .from('stroop_sessions')
+        .delete()
+        .neq('session_id', '00000000-0000-0000-0000-000000000000');
 
       if (error) {
         console.error('Failed to clear all data:', error);
@@ -146,20 +207,24 @@ export default function ResultsPage() {
     }
   };
 
+  // The distribution and speed-accuracy views show misses as their own
+  // category; everything else is measured on the responses
+  const responses = getResponses(results);
+
   const renderChart = () => {
     switch (activeTab) {
       case 'grouped':
-        return <ResultsChart results={results} />;
+        return <ResultsChart results={responses} colors={colors} />;
       case 'distribution':
         return <DistributionChart results={results} />;
       case 'spaghetti':
-        return <SpaghettiChart results={results} />;
+        return <SpaghettiChart results={responses} colors={colors} />;
       case 'difference':
-        return <DifferenceChart results={results} />;
+        return <DifferenceChart results={responses} colors={colors} />;
       case 'accuracy':
-        return <SpeedAccuracyChart results={results} />;
+        return <SpeedAccuracyChart results={results} colors={colors} />;
       default:
-        return <ResultsChart results={results} />;
+        return <ResultsChart results={responses} colors={colors} />;
     }
   };
 
@@ -171,6 +236,11 @@ export default function ResultsPage() {
     );
   }
 
+  const blockSummaries = summarizeBlocks(responses);
+  const primaryModality = getPrimaryModality(responses);
+  const congruencyContexts = summarizeByCongruency(responses);
+  const soaSummaries = summarizeBySoa(responses);
+
   return (
     <main className="min-h-screen flex flex-col items-center py-8 px-4 md:px-8">
       <motion.div
@@ -184,8 +254,29 @@ export default function ResultsPage() {
         </h1>
         <p className="text-muted text-center mb-8">
           Here&apos;s how your brain handled the Stroop Effect
+          {primaryModality && ` • Responses by ${primaryModality}`}
         </p>
 
+        {screeningFailure && (
+          <div className="border border-amber-400/50 bg-amber-400/10 rounded-xl p-4 mb-8 text-sm">
+            Your color check suggested difficulty telling{' '}
+            {screeningFailure.result.confusedPairs
+              .map(([a, b]) => `${COLORS[a].name} and ${COLORS[b].name}`)
+              .join(', ')}{' '}
+            apart ({Math.round(screeningFailure.result.accuracy * 100)}% correct).{' '}
+            {screeningFailure.excluded
+              ? 'This session is excluded from the analysis.'
+              : 'This session is flagged for review.'}
+          </div>
+        )}
+
+        {isInattentive && (
+          <div className="border border-amber-400/50 bg-amber-400/10 rounded-xl p-4 mb-8 text-sm">
+            You left the task during {summary.focusLostTrials} of {summary.totalTrials} trials.
+            Those trials are left out, and this session is flagged for review.
+          </div>
+        )}
+
         {/* Stats Grid */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
           <div className="bg-card border border-border rounded-xl p-4">
@@ -226,9 +317,135 @@ export default function ResultsPage() {
             <div className="text-2xl font-bold">
               {Math.round(summary.accuracy)}%
             </div>
+            {summary.missedTrials > 0 && (
+              <div className="text-xs text-muted">
+                {summary.missedTrials} missed (too slow)
+              </div>
+            )}
+            {summary.anticipatedTrials > 0 && (
+              <div className="text-xs text-muted">
+                {summary.anticipatedTrials} anticipated (too fast)
+              </div>
+            )}
+            {summary.focusLostTrials > 0 && (
+              <div className="text-xs text-muted">
+                {summary.focusLostTrials} excluded (left the task)
+              </div>
+            )}
           </div>
         </div>
 
+        {summary.neutralAvg !== null && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+            <div className="bg-card border border-border rounded-xl p-4">
+              <div className="flex items-center gap-2 text-muted text-sm mb-1">
+                <Clock className="w-4 h-4" />
+                <span>Neutral</span>
+              </div>
+              <div className="text-2xl font-bold text-zinc-400">
+                {Math.round(summary.neutralAvg)}ms
+              </div>
+            </div>
+
+            <div className="bg-card border border-border rounded-xl p-4">
+              <div className="flex items-center gap-2 text-muted text-sm mb-1">
+                <TrendingUp className="w-4 h-4" />
+                <span>Interference</span>
+              </div>
+              <div className="text-2xl font-bold text-rose-500">
+                {formatSignedMs(summary.interferenceEffect!)}
+              </div>
+            </div>
+
+            <div className="bg-card border border-border rounded-xl p-4">
+              <div className="flex items-center gap-2 text-muted text-sm mb-1">
+                <TrendingUp className="w-4 h-4" />
+                <span>Facilitation</span>
+              </div>
+              <div className="text-2xl font-bold text-emerald-400">
+                {formatSignedMs(summary.facilitationEffect!)}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {blockSummaries.length > 1 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+            {blockSummaries.map((block) => (
+              <div
+                key={block.blockIndex}
+                className="bg-card border border-border rounded-xl p-4"
+              >
+                <div className="flex items-center gap-2 text-muted text-sm mb-1">
+                  <Clock className="w-4 h-4" />
+                  <span>Block {block.blockIndex + 1}</span>
+                </div>
+                <div className="text-2xl font-bold">
+                  {block.meanReactionTime === null ? '–' : `${Math.round(block.meanReactionTime)}ms`}
+                </div>
+                <div className="text-xs text-muted">{Math.round(block.accuracy)}% correct</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {congruencyContexts.length > 1 && (
+          <div className="mb-8">
+            <h2 className="text-lg font-semibold mb-4">Stroop Effect by PC Context</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {congruencyContexts.map((context) => (
+                <div
+                  key={context.congruencyProportion}
+                  className="bg-card border border-border rounded-xl p-4"
+                >
+                  <div className="flex items-center gap-2 text-muted text-sm mb-1">
+                    <TrendingUp className="w-4 h-4" />
+                    <span>{formatCongruencyContext(context.congruencyProportion)}</span>
+                  </div>
+                  <div className="text-2xl font-bold text-amber-400">
+                    {context.stroopEffect === null ? '–' : formatSignedMs(context.stroopEffect)}
+                  </div>
+                  <div className="text-xs text-muted">
+                    {context.congruentAvg === null ? '–' : `${Math.round(context.congruentAvg)}ms`}
+                    {' vs '}
+                    {context.incongruentAvg === null
+                      ? '–'
+                      : `${Math.round(context.incongruentAvg)}ms`}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-muted mt-3">
+              The Stroop effect usually shrinks where conflict is frequent: participants
+              lean less on the word when it rarely matches the color.
+            </p>
+          </div>
+        )}
+
+        {soaSummaries.length > 1 && (
+          <div className="mb-8">
+            <h2 className="text-lg font-semibold mb-4">Stroop Effect by SOA</h2>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {soaSummaries.map((soa) => (
+                <div key={soa.soa} className="bg-card border border-border rounded-xl p-4">
+                  <div className="text-muted text-sm mb-1">{formatSoa(soa.soa)}</div>
+                  <div className="text-2xl font-bold text-amber-400">
+                    {soa.stroopEffect === null ? '–' : formatSignedMs(soa.stroopEffect)}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="bg-card border border-border rounded-xl p-6 mt-4">
+              <SoaChart summaries={soaSummaries} />
+            </div>
+            <p className="text-sm text-muted mt-3">
+              The color patch and the word appeared apart. Interference is usually largest when
+              the two arrive close together and fades as the color leads; a word shown well
+              before the color interferes less than you might expect.
+            </p>
+          </div>
+        )}
+
         {/* Visualization Section */}
         <div className="bg-card border border-border rounded-xl p-6 mb-8">
           <h2 className="text-lg font-semibold mb-4">Data Visualizations</h2>
@@ -258,6 +475,15 @@ export default function ResultsPage() {
               ? 'shows moderate interference. Your brain handles the conflict relatively well!'
               : 'is quite low! You have excellent selective attention.'}
           </p>
+          {summary.neutralAvg !== null && (
+            <p className="text-muted leading-relaxed mt-3">
+              Neutral trials split the effect in two: <strong className="text-foreground">interference</strong>{' '}
+              (incongruent − neutral, {formatSignedMs(summary.interferenceEffect!)}) is the cost of a
+              conflicting word, while <strong className="text-foreground">facilitation</strong>{' '}
+              (neutral − congruent, {formatSignedMs(summary.facilitationEffect!)}) is the benefit of a
+              matching one.
+            </p>
+          )}
         </div>
 
         {/* Action Buttons */}
@@ -0,0 +1,226 @@
+'use client';
+
+import { useCallback, useEffect, useEffectEvent, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Ruler } from 'lucide-react';
+import { getProtocol } from '@/lib/protocols';
+import { getPendingSetupStep, loadSetupResults } from '@/lib/session';
+import {
+  CREDIT_CARD_HEIGHT_MM,
+  CREDIT_CARD_WIDTH_MM,
+  estimateViewingDistance,
+  getPixelsPerMm,
+} from '@/lib/visual-angle';
+import { DisplayCalibration } from '@/types';
+
+const BLIND_SPOT_SWEEPS = 5;
+const DOT_SPEED = 0.15; // px per ms
+const FIXATION_INSET = 40; // px from the right edge of the sweep area
+
+type Step = 'card' | 'distance' | 'blind-spot';
+
+export default function ScreenCalibrationPage() {
+  const router = useRouter();
+  const [step, setStep] = useState<Step>('card');
+  // Starts at the size of a card on a 96 dpi display
+  const [cardWidth, setCardWidth] = useState(Math.round(CREDIT_CARD_WIDTH_MM * (96 / 25.4)));
+  const [distanceCm, setDistanceCm] = useState('');
+  const [offsets, setOffsets] = useState<number[]>([]);
+  const [dotOffset, setDotOffset] = useState<number | null>(null);
+  const dotOffsetRef = useRef<number | null>(null);
+  const sweepAreaRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!sessionStorage.getItem('stroop_session_id')) {
+      router.push('/');
+    }
+  }, [router]);
+
+  const finish = useCallback(
+    (calibration: DisplayCalibration) => {
+      sessionStorage.setItem('stroop_display_calibration', JSON.stringify(calibration));
+      const protocol = getProtocol(sessionStorage.getItem('stroop_protocol_id'));
+      router.push(getPendingSetupStep(protocol, loadSetupResults()) ?? '/experiment');
+    },
+    [router]
+  );
+
+  const pixelsPerMm = getPixelsPerMm(cardWidth);
+  const enteredDistance = parseFloat(distanceCm);
+  const isDistanceValid = enteredDistance >= 20 && enteredDistance <= 200;
+
+  const handleDistanceSubmit = () => {
+    if (!isDistanceValid) return;
+    finish({ pixelsPerMm, viewingDistanceMm: enteredDistance * 10, distanceSource: 'entered' });
+  };
+
+  // Move the dot away from fixation until it is reported gone; a dot that
+  // runs off the area starts over
+  const startSweep = () => {
+    const maxOffset = (sweepAreaRef.current?.clientWidth ?? 0) - 2 * FIXATION_INSET;
+    let startedAt: number | null = null;
+
+    const advance = (timestamp: number) => {
+      if (dotOffsetRef.current === null) return;
+      startedAt ??= timestamp;
+      const offset = (timestamp - startedAt) * DOT_SPEED;
+      if (offset > maxOffset) startedAt = timestamp;
+      dotOffsetRef.current = Math.min(offset, maxOffset);
+      setDotOffset(dotOffsetRef.current);
+      requestAnimationFrame(advance);
+    };
+    dotOffsetRef.current = 0;
+    setDotOffset(0);
+    requestAnimationFrame(advance);
+  };
+
+  // Space starts a sweep, and the next press records where the dot vanished
+  const handleBlindSpotKey = useEffectEvent(() => {
+    const offset = dotOffsetRef.current;
+    if (offset === null) {
+      startSweep();
+      return;
+    }
+    dotOffsetRef.current = null;
+    setDotOffset(null);
+    const next = [...offsets, offset];
+    setOffsets(next);
+
+    if (next.length >= BLIND_SPOT_SWEEPS) {
+      finish({
+        pixelsPerMm,
+        viewingDistanceMm: estimateViewingDistance(next, pixelsPerMm),
+        distanceSource: 'blind-spot',
+        blindSpotOffsets: next,
+      });
+    }
+  });
+
+  useEffect(() => {
+    if (step !== 'blind-spot') return;
+
+    function handleKeyDown(event: KeyboardEvent) {
+      if (event.key === ' ' && !event.repeat) {
+        event.preventDefault();
+        handleBlindSpotKey();
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      dotOffsetRef.current = null;
+    };
+  }, [step]);
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className={`bg-card border border-border rounded-xl p-8 w-full text-center
+          ${step === 'blind-spot' ? 'max-w-5xl' : 'max-w-lg'}`}
+      >
+        <div className="flex items-center justify-center gap-2 mb-3">
+          <Ruler className="w-6 h-6 text-emerald-400" />
+          <h1 className="text-2xl font-bold">Screen Size</h1>
+        </div>
+
+        {step === 'card' && (
+          <>
+            <p className="text-muted mb-6">
+              Hold a credit card (or any card of that size) against the screen and drag the
+              slider until the box matches the card&apos;s width.
+            </p>
+            <div
+              className="mx-auto mb-6 rounded-lg bg-gradient-to-br from-zinc-500 to-zinc-700
+                         border border-zinc-400"
+              style={{
+                width: cardWidth,
+                height: cardWidth * (CREDIT_CARD_HEIGHT_MM / CREDIT_CARD_WIDTH_MM),
+              }}
+            />
+            <input
+              type="range"
+              aria-label="Card size"
+              min={150}
+              max={700}
+              value={cardWidth}
+              onChange={(event) => setCardWidth(Number(event.target.value))}
+              className="w-full mb-6 accent-emerald-400"
+            />
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => setStep('distance')}
+              className="px-6 py-3 bg-emerald-400 text-zinc-900 font-bold rounded-xl
+                         transition-colors hover:bg-emerald-300"
+            >
+              The Box Matches
+            </motion.button>
+          </>
+        )}
+
+        {step === 'distance' && (
+          <>
+            <p className="text-muted mb-6">
+              Sit as you will during the experiment. If you can, measure the distance from
+              your eyes to the screen; otherwise we can estimate it.
+            </p>
+            <div className="flex items-center justify-center gap-2 mb-4">
+              <input
+                type="number"
+                aria-label="Viewing distance in cm"
+                placeholder="e.g. 57"
+                value={distanceCm}
+                onChange={(event) => setDistanceCm(event.target.value)}
+                className="w-28 px-3 py-2 bg-background border border-border rounded-lg text-center"
+              />
+              <span className="text-muted">cm</span>
+              <button
+                onClick={handleDistanceSubmit}
+                disabled={!isDistanceValid}
+                className="px-4 py-2 bg-emerald-400 text-zinc-900 font-bold rounded-lg
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Use This Distance
+              </button>
+            </div>
+            <button
+              onClick={() => setStep('blind-spot')}
+              className="px-6 py-3 bg-card border border-border rounded-xl
+                         text-muted hover:text-foreground transition-colors"
+            >
+              Estimate It for Me
+            </button>
+          </>
+        )}
+
+        {step === 'blind-spot' && (
+          <>
+            <p className="text-muted mb-6">
+              Close your <strong className="text-foreground">right</strong> eye and keep your
+              left eye on the black square. Press{' '}
+              <strong className="text-foreground">Space</strong> to send the red dot off, and
+              again the moment it disappears ({offsets.length}/{BLIND_SPOT_SWEEPS}).
+            </p>
+            <div ref={sweepAreaRef} className="relative h-40 w-full">
+              <div
+                className="absolute top-1/2 -translate-y-1/2 w-5 h-5 bg-black
+                           border border-zinc-500"
+                style={{ right: FIXATION_INSET }}
+              />
+              {dotOffset !== null && (
+                <div
+                  className="absolute top-1/2 -translate-y-1/2 w-5 h-5 rounded-full bg-red-500"
+                  style={{ right: FIXATION_INSET + dotOffset }}
+                />
+              )}
+            </div>
+          </>
+        )}
+      </motion.div>
+    </main>
+  );
+}
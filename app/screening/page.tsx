@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Eye } from 'lucide-react';
+import { getProtocol } from '@/lib/protocols';
+import { getPendingSetupStep, loadSetupResults } from '@/lib/session';
+import { ScreeningItem, generateScreeningItems, scoreScreening } from '@/lib/screening';
+import { ExperimentProtocol } from '@/types';
+
+export default function ScreeningPage() {
+  const router = useRouter();
+  const [protocol, setProtocol] = useState<ExperimentProtocol | null>(null);
+  const [items, setItems] = useState<ScreeningItem[]>([]);
+  const [answers, setAnswers] = useState<number[]>([]);
+
+  useEffect(() => {
+    if (!sessionStorage.getItem('stroop_session_id')) {
+      router.push('/');
+    }
+  }, [router]);
+
+  const handleStart = () => {
+    const sessionId = sessionStorage.getItem('stroop_session_id');
+    if (!sessionId) return;
+    const activeProtocol = getProtocol(sessionStorage.getItem('stroop_protocol_id'));
+    setProtocol(activeProtocol);
+    setItems(generateScreeningItems(activeProtocol, sessionId));
+  };
+
+  const handleAnswer = (patchIndex: number) => {
+    if (!protocol || answers.length >= items.length) return;
+    const next = [...answers, patchIndex];
+    setAnswers(next);
+
+    if (next.length >= items.length) {
+      // The result is only stored; any exclusion happens in the analysis
+      const result = scoreScreening(protocol, items, next);
+      sessionStorage.setItem('stroop_color_screening', JSON.stringify(result));
+      router.push(getPendingSetupStep(protocol, loadSetupResults()) ?? '/experiment');
+    }
+  };
+
+  const item = items[Math.min(answers.length, items.length - 1)];
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-card border border-border rounded-xl p-8 w-full max-w-md text-center"
+      >
+        <div className="flex items-center justify-center gap-2 mb-3">
+          <Eye className="w-6 h-6 text-emerald-400" />
+          <h1 className="text-2xl font-bold">Color Check</h1>
+        </div>
+
+        {!item ? (
+          <>
+            <p className="text-muted mb-6">
+              The experiment relies on telling its colors apart. On each of the next few
+              screens, one circle has a different color from the others - click or tap
+              it. Some circles are lighter or darker; go by color, not brightness.
+            </p>
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={handleStart}
+              className="px-6 py-3 bg-emerald-400 text-zinc-900 font-bold rounded-xl
+                         transition-colors hover:bg-emerald-300"
+            >
+              Start Color Check
+            </motion.button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-muted mb-6">
+              Check {answers.length + 1} of {items.length}: which circle is different?
+            </p>
+            <div className="grid grid-cols-2 gap-6 w-fit mx-auto">
+              {item.patches.map((patch, patchIndex) => (
+                <button
+                  key={`${answers.length}-${patchIndex}`}
+                  aria-label={`Circle ${patchIndex + 1}`}
+                  onClick={() => handleAnswer(patchIndex)}
+                  className="w-20 h-20 rounded-full"
+                  style={{ backgroundColor: patch }}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </motion.div>
+    </main>
+  );
+}
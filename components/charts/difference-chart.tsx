@@ -11,10 +11,12 @@ import {
   ReferenceLine,
   Cell,
 } from 'recharts';
-import { TrialResult } from '@/types';
+import { TrialResult, ColorKey } from '@/types';
+import { formatColorName, getCondition } from '@/lib/analysis';
 
 interface DifferenceChartProps {
   results: TrialResult[];
+  colors: ColorKey[];
 }
 
 interface DifferenceScore {
@@ -24,32 +26,32 @@ interface DifferenceScore {
   incongruentAvg: number;
 }
 
-function processData(results: TrialResult[]): {
+const SUMMARY_BARS = ['Overall', 'Interference', 'Facilitation'];
+
+function averageRT(trials: TrialResult[]): number {
+  return trials.length > 0
+    ? trials.reduce((sum, r) => sum + r.reaction_time_ms, 0) / trials.length
+    : 0;
+}
+
+function processData(results: TrialResult[], colors: ColorKey[]): {
   wordDifferences: DifferenceScore[];
   overallDifference: number;
+  neutralEffects: { interference: number; facilitation: number } | null;
 } {
-  const words = ['red', 'green', 'yellow'];
-
-  const wordDifferences = words.map((word) => {
+  const wordDifferences = colors.map((word) => {
     const congruentTrials = results.filter(
-      (r) => r.word_text === word && r.is_congruent && r.is_correct
+      (r) => r.word_text === word && getCondition(r) === 'congruent' && r.is_correct
     );
     const incongruentTrials = results.filter(
-      (r) => r.word_text === word && !r.is_congruent && r.is_correct
+      (r) => r.word_text === word && getCondition(r) === 'incongruent' && r.is_correct
     );
 
-    const congruentAvg =
-      congruentTrials.length > 0
-        ? congruentTrials.reduce((sum, r) => sum + r.reaction_time_ms, 0) / congruentTrials.length
-        : 0;
-
-    const incongruentAvg =
-      incongruentTrials.length > 0
-        ? incongruentTrials.reduce((sum, r) => sum + r.reaction_time_ms, 0) / incongruentTrials.length
-        : 0;
+    const congruentAvg = averageRT(congruentTrials);
+    const incongruentAvg = averageRT(incongruentTrials);
 
     return {
-      word: word.charAt(0).toUpperCase() + word.slice(1),
+      word: formatColorName(word),
       difference: Math.round(incongruentAvg - congruentAvg),
       congruentAvg: Math.round(congruentAvg),
       incongruentAvg: Math.round(incongruentAvg),
@@ -57,32 +59,40 @@ function processData(results: TrialResult[]): {
   });
 
   // Overall difference
-  const allCongruent = results.filter((r) => r.is_congruent && r.is_correct);
-  const allIncongruent = results.filter((r) => !r.is_congruent && r.is_correct);
-
-  const overallCongruentAvg =
-    allCongruent.length > 0
-      ? allCongruent.reduce((sum, r) => sum + r.reaction_time_ms, 0) / allCongruent.length
-      : 0;
+  const allCongruent = results.filter((r) => getCondition(r) === 'congruent' && r.is_correct);
+  const allIncongruent = results.filter((r) => getCondition(r) === 'incongruent' && r.is_correct);
+  const allNeutral = results.filter((r) => getCondition(r) === 'neutral' && r.is_correct);
 
-  const overallIncongruentAvg =
-    allIncongruent.length > 0
-      ? allIncongruent.reduce((sum, r) => sum + r.reaction_time_ms, 0) / allIncongruent.length
-      : 0;
+  const overallCongruentAvg = averageRT(allCongruent);
+  const overallIncongruentAvg = averageRT(allIncongruent);
+  const overallNeutralAvg = averageRT(allNeutral);
 
   return {
     wordDifferences,
     overallDifference: Math.round(overallIncongruentAvg - overallCongruentAvg),
+    neutralEffects:
+      allNeutral.length > 0
+        ? {
+            interference: Math.round(overallIncongruentAvg - overallNeutralAvg),
+            facilitation: Math.round(overallNeutralAvg - overallCongruentAvg),
+          }
+        : null,
   };
 }
 
-export function DifferenceChart({ results }: DifferenceChartProps) {
-  const { wordDifferences, overallDifference } = processData(results);
+export function DifferenceChart({ results, colors }: DifferenceChartProps) {
+  const { wordDifferences, overallDifference, neutralEffects } = processData(results, colors);
 
-  // Add overall to the chart
+  // Add overall (and the neutral-baseline split, if any) to the chart
   const chartData = [
     ...wordDifferences,
     { word: 'Overall', difference: overallDifference, congruentAvg: 0, incongruentAvg: 0 },
+    ...(neutralEffects
+      ? [
+          { word: 'Interference', difference: neutralEffects.interference, congruentAvg: 0, incongruentAvg: 0 },
+          { word: 'Facilitation', difference: neutralEffects.facilitation, congruentAvg: 0, incongruentAvg: 0 },
+        ]
+      : []),
   ];
 
   return (
@@ -134,6 +144,8 @@ export function DifferenceChart({ results }: DifferenceChartProps) {
                   fill={
                     entry.word === 'Overall'
                       ? '#fbbf24'
+                      : SUMMARY_BARS.includes(entry.word)
+                      ? '#a1a1aa'
                       : entry.difference > 0
                       ? '#f43f5e'
                       : '#34d399'
@@ -157,6 +169,12 @@ export function DifferenceChart({ results }: DifferenceChartProps) {
           <div className="w-3 h-3 rounded-full bg-amber-400" />
           <span className="text-muted">Overall</span>
         </div>
+        {neutralEffects && (
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-zinc-400" />
+            <span className="text-muted">Interference (I − N) / Facilitation (N − C)</span>
+          </div>
+        )}
       </div>
     </div>
   );
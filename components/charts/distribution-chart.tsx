@@ -12,17 +12,27 @@ import {
   ReferenceArea,
   Cell,
 } from 'recharts';
-import { TrialResult } from '@/types';
+import { TrialResult, TrialCondition } from '@/types';
+import {
+  CONDITION_COLORS,
+  CONDITION_LABELS,
+  countMisses,
+  getCondition,
+  getConditions,
+  getResponses,
+  isMiss,
+} from '@/lib/analysis';
 
 interface DistributionChartProps {
   results: TrialResult[];
 }
 
 interface DataPoint {
-  condition: string;
+  condition: TrialCondition;
   x: number;
   rt: number;
   isCorrect: boolean;
+  isMiss: boolean;
 }
 
 function calculateQuartiles(values: number[]) {
@@ -42,52 +52,50 @@ function calculateQuartiles(values: number[]) {
 
 function processData(results: TrialResult[]): {
   scatterData: DataPoint[];
-  congruentStats: ReturnType<typeof calculateQuartiles>;
-  incongruentStats: ReturnType<typeof calculateQuartiles>;
+  conditionStats: { condition: TrialCondition; x: number; stats: ReturnType<typeof calculateQuartiles> }[];
 } {
-  const congruentRTs = results
-    .filter((r) => r.is_congruent && r.is_correct)
-    .map((r) => r.reaction_time_ms);
-
-  const incongruentRTs = results
-    .filter((r) => !r.is_congruent && r.is_correct)
-    .map((r) => r.reaction_time_ms);
-
+  const conditions = getConditions(results);
   const scatterData: DataPoint[] = [];
+  // Misses are plotted at the deadline they ran out at; anticipations and
+  // focus losses have no RT worth showing
+  const plotted = [...getResponses(results), ...results.filter(isMiss)];
 
-  // Add jittered points for congruent (x around 1)
-  results
-    .filter((r) => r.is_congruent)
-    .forEach((r) => {
-      scatterData.push({
-        condition: 'Congruent',
-        x: 1 + (Math.random() - 0.5) * 0.3,
-        rt: r.reaction_time_ms,
-        isCorrect: r.is_correct,
-      });
-    });
+  const conditionStats = conditions.map((condition, index) => {
+    const x = index + 1;
+    const conditionResults = plotted.filter((r) => getCondition(r) === condition);
 
-  // Add jittered points for incongruent (x around 2)
-  results
-    .filter((r) => !r.is_congruent)
-    .forEach((r) => {
+    // Add jittered points around the condition's x position
+    conditionResults.forEach((r) => {
       scatterData.push({
-        condition: 'Incongruent',
-        x: 2 + (Math.random() - 0.5) * 0.3,
+        condition,
+        x: x + (Math.random() - 0.5) * 0.3,
         rt: r.reaction_time_ms,
         isCorrect: r.is_correct,
+        isMiss: isMiss(r),
       });
     });
 
-  return {
-    scatterData,
-    congruentStats: calculateQuartiles(congruentRTs),
-    incongruentStats: calculateQuartiles(incongruentRTs),
-  };
+    const correctRTs = conditionResults
+      .filter((r) => r.is_correct)
+      .map((r) => r.reaction_time_ms);
+
+    return { condition, x, stats: calculateQuartiles(correctRTs) };
+  });
+
+  return { scatterData, conditionStats };
 }
 
 export function DistributionChart({ results }: DistributionChartProps) {
-  const { scatterData, congruentStats, incongruentStats } = processData(results);
+  const { scatterData, conditionStats } = processData(results);
+  const misses = countMisses(results);
+  const hasMisses = conditionStats.some(({ condition }) => misses[condition] > 0);
+  const conditionAt = (x: number) =>
+    conditionStats[Math.min(Math.max(Math.round(x), 1), conditionStats.length) - 1].condition;
+  const labelAt = (x: number) => CONDITION_LABELS[conditionAt(x)];
+  const tickAt = (x: number) => {
+    const missCount = misses[conditionAt(x)];
+    return missCount > 0 ? `${labelAt(x)} (${missCount} missed)` : labelAt(x);
+  };
 
   return (
     <div className="w-full">
@@ -95,6 +103,7 @@ export function DistributionChart({ results }: DistributionChartProps) {
         Each dot represents a single trial. Shaded areas show the interquartile range (IQR),
         with the median line in the center. This visualization reveals the full distribution
         of your reaction times.
+        {hasMisses && ' Missed trials are drawn as rings at the response deadline.'}
       </p>
       <div className="h-80 md:h-96">
         <ResponsiveContainer width="100%" height="100%">
@@ -102,9 +111,9 @@ export function DistributionChart({ results }: DistributionChartProps) {
             <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
             <XAxis
               type="number"
-              domain={[0.5, 2.5]}
-              ticks={[1, 2]}
-              tickFormatter={(value) => (value === 1 ? 'Congruent' : 'Incongruent')}
+              domain={[0.5, conditionStats.length + 0.5]}
+              ticks={conditionStats.map((c) => c.x)}
+              tickFormatter={tickAt}
               stroke="#71717a"
               tick={{ fill: '#71717a' }}
             />
@@ -126,79 +135,78 @@ export function DistributionChart({ results }: DistributionChartProps) {
                 color: '#fafafa',
               }}
               formatter={(value) => [`${Math.round(Number(value))}ms`, 'RT']}
-              labelFormatter={(label) => (label < 1.5 ? 'Congruent' : 'Incongruent')}
-            />
-
-            {/* Congruent IQR box */}
-            <ReferenceArea
-              x1={0.7}
-              x2={1.3}
-              y1={congruentStats.q1}
-              y2={congruentStats.q3}
-              fill="#34d399"
-              fillOpacity={0.2}
-              stroke="#34d399"
-              strokeOpacity={0.5}
-            />
-            {/* Congruent median */}
-            <ReferenceLine
-              segment={[
-                { x: 0.7, y: congruentStats.median },
-                { x: 1.3, y: congruentStats.median },
-              ]}
-              stroke="#34d399"
-              strokeWidth={2}
+              labelFormatter={(label) => labelAt(Number(label))}
             />
 
-            {/* Incongruent IQR box */}
-            <ReferenceArea
-              x1={1.7}
-              x2={2.3}
-              y1={incongruentStats.q1}
-              y2={incongruentStats.q3}
-              fill="#f43f5e"
-              fillOpacity={0.2}
-              stroke="#f43f5e"
-              strokeOpacity={0.5}
-            />
-            {/* Incongruent median */}
-            <ReferenceLine
-              segment={[
-                { x: 1.7, y: incongruentStats.median },
-                { x: 2.3, y: incongruentStats.median },
-              ]}
-              stroke="#f43f5e"
-              strokeWidth={2}
-            />
+            {conditionStats.flatMap(({ condition, x, stats }) => [
+              // IQR box
+              <ReferenceArea
+                key={`${condition}-iqr`}
+                x1={x - 0.3}
+                x2={x + 0.3}
+                y1={stats.q1}
+                y2={stats.q3}
+                fill={CONDITION_COLORS[condition]}
+                fillOpacity={0.2}
+                stroke={CONDITION_COLORS[condition]}
+                strokeOpacity={0.5}
+              />,
+              // Median
+              <ReferenceLine
+                key={`${condition}-median`}
+                segment={[
+                  { x: x - 0.3, y: stats.median },
+                  { x: x + 0.3, y: stats.median },
+                ]}
+                stroke={CONDITION_COLORS[condition]}
+                strokeWidth={2}
+              />,
+            ])}
 
             {/* Scatter points */}
             <Scatter data={scatterData} dataKey="rt">
-              {scatterData.map((entry, index) => (
-                <Cell
-                  key={`cell-${index}`}
-                  fill={entry.condition === 'Congruent' ? '#34d399' : '#f43f5e'}
-                  fillOpacity={entry.isCorrect ? 0.7 : 0.3}
-                  stroke={entry.isCorrect ? 'none' : '#fafafa'}
-                  strokeWidth={entry.isCorrect ? 0 : 1}
-                />
-              ))}
+              {scatterData.map((entry, index) =>
+                entry.isMiss ? (
+                  <Cell
+                    key={`cell-${index}`}
+                    fill="none"
+                    stroke={CONDITION_COLORS[entry.condition]}
+                    strokeWidth={2}
+                  />
+                ) : (
+                  <Cell
+                    key={`cell-${index}`}
+                    fill={CONDITION_COLORS[entry.condition]}
+                    fillOpacity={entry.isCorrect ? 0.7 : 0.3}
+                    stroke={entry.isCorrect ? 'none' : '#fafafa'}
+                    strokeWidth={entry.isCorrect ? 0 : 1}
+                  />
+                )
+              )}
             </Scatter>
           </ComposedChart>
         </ResponsiveContainer>
       </div>
       <div className="flex justify-center gap-6 mt-4 text-sm">
-        <div className="flex items-center gap-2">
-          <div className="w-3 h-3 rounded-full bg-emerald-400 opacity-70" />
-          <span className="text-muted">Congruent (correct)</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-3 h-3 rounded-full bg-rose-500 opacity-70" />
-          <span className="text-muted">Incongruent (correct)</span>
-        </div>
+        {conditionStats.map(({ condition }) => (
+          <div key={condition} className="flex items-center gap-2">
+            <div
+              className="w-3 h-3 rounded-full opacity-70"
+              style={{ backgroundColor: CONDITION_COLORS[condition] }}
+            />
+            <span className="text-muted">{CONDITION_LABELS[condition]} (correct)</span>
+          </div>
+        ))}
         <div className="flex items-center gap-2">
           <div className="w-3 h-3 rounded-full border border-white opacity-50" />
           <span className="text-muted">Incorrect</span>
         </div>
+        {hasMisses && (
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full border-2 border-muted" />
+            <span className="text-muted">Missed</span>
+          </div>
+        )}
       </div>
     </div>
   );
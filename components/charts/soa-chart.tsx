@@ -0,0 +1,96 @@
+'use client';
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { SoaSummary, TrialCondition } from '@/types';
+import { CONDITION_COLORS, CONDITION_LABELS } from '@/lib/analysis';
+
+interface SoaChartProps {
+  summaries: SoaSummary[];
+}
+
+const CONDITION_KEYS: Record<TrialCondition, keyof SoaSummary> = {
+  congruent: 'congruentAvg',
+  neutral: 'neutralAvg',
+  incongruent: 'incongruentAvg',
+};
+
+export function SoaChart({ summaries }: SoaChartProps) {
+  const conditions = (['congruent', 'neutral', 'incongruent'] as TrialCondition[]).filter(
+    (condition) => summaries.some((s) => s[CONDITION_KEYS[condition]] !== null)
+  );
+  const chartData = summaries.map((s) => ({
+    soa: s.soa,
+    ...Object.fromEntries(
+      conditions.map((condition) => {
+        const rt = s[CONDITION_KEYS[condition]];
+        return [condition, rt === null ? null : Math.round(rt)];
+      })
+    ),
+  }));
+
+  return (
+    <div className="h-72 md:h-80">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 30 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+          <XAxis
+            dataKey="soa"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            ticks={summaries.map((s) => s.soa)}
+            stroke="#71717a"
+            tick={{ fill: '#71717a' }}
+            label={{
+              value: 'SOA (ms, word onset − color onset)',
+              position: 'insideBottom',
+              offset: -15,
+              fill: '#71717a',
+            }}
+          />
+          <YAxis
+            stroke="#71717a"
+            tick={{ fill: '#71717a' }}
+            domain={['auto', 'auto']}
+            label={{
+              value: 'Mean RT (ms)',
+              angle: -90,
+              position: 'insideLeft',
+              fill: '#71717a',
+            }}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#18181b',
+              border: '1px solid #27272a',
+              borderRadius: '8px',
+              color: '#fafafa',
+            }}
+            labelFormatter={(soa) => `SOA ${soa} ms`}
+            formatter={(value, name) => [`${value}ms`, CONDITION_LABELS[name as TrialCondition]]}
+          />
+          <ReferenceLine x={0} stroke="#71717a" strokeDasharray="3 3" />
+          {conditions.map((condition) => (
+            <Line
+              key={condition}
+              type="monotone"
+              dataKey={condition}
+              stroke={CONDITION_COLORS[condition]}
+              strokeWidth={2}
+              dot={{ r: 4, fill: CONDITION_COLORS[condition] }}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
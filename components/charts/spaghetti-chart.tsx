@@ -11,65 +11,70 @@ import {
   Scatter,
   ComposedChart,
 } from 'recharts';
-import { TrialResult } from '@/types';
+import { TrialResult, TrialCondition, ColorKey, COLORS } from '@/types';
+import {
+  CONDITION_LABELS,
+  formatColorName,
+  getCondition,
+  getConditions,
+  matchesWord,
+} from '@/lib/analysis';
 
 interface SpaghettiChartProps {
   results: TrialResult[];
+  colors: ColorKey[];
 }
 
 interface WordComparison {
   word: string;
-  congruent: number | null;
-  incongruent: number | null;
+  averages: Partial<Record<TrialCondition, number | null>>;
 }
 
-function processData(results: TrialResult[]): WordComparison[] {
-  const words = ['red', 'green', 'yellow'];
-
-  return words.map((word) => {
-    const congruentTrials = results.filter(
-      (r) => r.word_text === word && r.is_congruent && r.is_correct
-    );
-    const incongruentTrials = results.filter(
-      (r) => r.word_text === word && !r.is_congruent && r.is_correct
-    );
-
-    const congruentAvg =
-      congruentTrials.length > 0
-        ? congruentTrials.reduce((sum, r) => sum + r.reaction_time_ms, 0) / congruentTrials.length
-        : null;
-
-    const incongruentAvg =
-      incongruentTrials.length > 0
-        ? incongruentTrials.reduce((sum, r) => sum + r.reaction_time_ms, 0) / incongruentTrials.length
-        : null;
+function averageRT(trials: TrialResult[]): number | null {
+  if (trials.length === 0) return null;
+  return Math.round(trials.reduce((sum, r) => sum + r.reaction_time_ms, 0) / trials.length);
+}
 
-    return {
-      word: word.charAt(0).toUpperCase() + word.slice(1),
-      congruent: congruentAvg ? Math.round(congruentAvg) : null,
-      incongruent: incongruentAvg ? Math.round(incongruentAvg) : null,
-    };
-  });
+function processData(
+  results: TrialResult[],
+  colors: ColorKey[],
+  conditions: TrialCondition[]
+): WordComparison[] {
+  return colors.map((word) => ({
+    word: formatColorName(word),
+    averages: Object.fromEntries(
+      conditions.map((condition) => [
+        condition,
+        averageRT(
+          results.filter(
+            (r) => matchesWord(r, word) && getCondition(r) === condition && r.is_correct
+          )
+        ),
+      ])
+    ),
+  }));
 }
 
-export function SpaghettiChart({ results }: SpaghettiChartProps) {
-  const data = processData(results);
+export function SpaghettiChart({ results, colors }: SpaghettiChartProps) {
+  const conditions = getConditions(results);
+  const data = processData(results, colors, conditions);
 
-  // Transform for line chart - each word becomes a line connecting congruent to incongruent
-  const lineData = [
-    { condition: 'Congruent', ...Object.fromEntries(data.map((d) => [d.word, d.congruent])) },
-    { condition: 'Incongruent', ...Object.fromEntries(data.map((d) => [d.word, d.incongruent])) },
-  ];
+  // Transform for line chart - each word becomes a line from congruent (via neutral) to incongruent
+  const lineData = conditions.map((condition) => ({
+    condition: CONDITION_LABELS[condition],
+    ...Object.fromEntries(data.map((d) => [d.word, d.averages[condition] ?? null])),
+  }));
 
   // Calculate if effect is consistent
-  const effectsConsistent = data.every(
-    (d) => d.congruent !== null && d.incongruent !== null && d.incongruent > d.congruent
+  const effectsConsistent = data.every(({ averages: { congruent, incongruent } }) =>
+    congruent != null && incongruent != null && incongruent > congruent
   );
 
   return (
     <div className="w-full">
       <p className="text-sm text-muted mb-4">
-        Lines connect the average reaction time for each word from congruent to incongruent conditions.
+        Lines connect the average reaction time for each word from congruent to incongruent conditions
+        {conditions.includes('neutral') ? ' (neutral points are grouped by ink color)' : ''}.
         {effectsConsistent ? (
           <span className="text-emerald-400"> All lines slope upward, showing a consistent Stroop Effect across words.</span>
         ) : (
@@ -104,46 +109,27 @@ export function SpaghettiChart({ results }: SpaghettiChartProps) {
               }}
               formatter={(value, name) => [`${value}ms`, String(name)]}
             />
-            <Line
-              type="linear"
-              dataKey="Red"
-              stroke="#f43f5e"
-              strokeWidth={3}
-              dot={{ fill: '#f43f5e', strokeWidth: 0, r: 6 }}
-              connectNulls
-            />
-            <Line
-              type="linear"
-              dataKey="Green"
-              stroke="#34d399"
-              strokeWidth={3}
-              dot={{ fill: '#34d399', strokeWidth: 0, r: 6 }}
-              connectNulls
-            />
-            <Line
-              type="linear"
-              dataKey="Yellow"
-              stroke="#fbbf24"
-              strokeWidth={3}
-              dot={{ fill: '#fbbf24', strokeWidth: 0, r: 6 }}
-              connectNulls
-            />
+            {colors.map((color) => (
+              <Line
+                key={color}
+                type="linear"
+                dataKey={formatColorName(color)}
+                stroke={COLORS[color].hex}
+                strokeWidth={3}
+                dot={{ fill: COLORS[color].hex, strokeWidth: 0, r: 6 }}
+                connectNulls
+              />
+            ))}
           </ComposedChart>
         </ResponsiveContainer>
       </div>
-      <div className="flex justify-center gap-6 mt-4 text-sm">
-        <div className="flex items-center gap-2">
-          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#f43f5e' }} />
-          <span className="text-muted">Red</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#34d399' }} />
-          <span className="text-muted">Green</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#fbbf24' }} />
-          <span className="text-muted">Yellow</span>
-        </div>
+      <div className="flex flex-wrap justify-center gap-6 mt-4 text-sm">
+        {colors.map((color) => (
+          <div key={color} className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: COLORS[color].hex }} />
+            <span className="text-muted">{formatColorName(color)}</span>
+          </div>
+        ))}
       </div>
     </div>
   );
@@ -11,47 +11,72 @@ import {
   Cell,
   ReferenceLine,
 } from 'recharts';
-import { TrialResult } from '@/types';
+import { TrialResult, TrialCondition, ColorKey } from '@/types';
+import {
+  CONDITION_COLORS,
+  CONDITION_LABELS,
+  countMisses,
+  formatColorName,
+  getCondition,
+  getConditions,
+  getResponses,
+  isMiss,
+  matchesWord,
+} from '@/lib/analysis';
 
 interface SpeedAccuracyChartProps {
   results: TrialResult[];
+  colors: ColorKey[];
 }
 
 interface DataPoint {
   word: string;
-  condition: string;
+  condition: TrialCondition;
   avgRT: number;
   errorRate: number;
   totalTrials: number;
   errors: number;
+  misses: number;
+  isMissPoint: boolean; // plotted at the miss rate rather than the error rate
 }
 
-function processData(results: TrialResult[]): DataPoint[] {
-  const words = ['red', 'green', 'yellow'];
-  const conditions = ['congruent', 'incongruent'];
+function processData(results: TrialResult[], colors: ColorKey[]): DataPoint[] {
+  const conditions = getConditions(results);
+  const responses = getResponses(results);
   const dataPoints: DataPoint[] = [];
 
-  words.forEach((word) => {
+  colors.forEach((word) => {
     conditions.forEach((condition) => {
-      const isCongruent = condition === 'congruent';
-      const trials = results.filter(
-        (r) => r.word_text === word && r.is_congruent === isCongruent
-      );
+      const inCell = (r: TrialResult) => matchesWord(r, word) && getCondition(r) === condition;
+      const trials = responses.filter(inCell);
+      const misses = results.filter((r) => inCell(r) && isMiss(r)).length;
 
       if (trials.length > 0) {
         const avgRT =
           trials.reduce((sum, r) => sum + r.reaction_time_ms, 0) / trials.length;
         const errors = trials.filter((r) => !r.is_correct).length;
         const errorRate = (errors / trials.length) * 100;
-
-        dataPoints.push({
-          word: word.charAt(0).toUpperCase() + word.slice(1),
+        const point = {
+          word: formatColorName(word),
           condition,
           avgRT: Math.round(avgRT),
           errorRate: Math.round(errorRate * 10) / 10,
           totalTrials: trials.length,
           errors,
-        });
+          misses,
+          isMissPoint: false,
+        };
+
+        dataPoints.push(point);
+        // Misses have no RT, so they sit at the mean RT of the responses
+        if (misses > 0) {
+          const missRate = (misses / (trials.length + misses)) * 100;
+          dataPoints.push({
+            ...point,
+            errorRate: Math.round(missRate * 10) / 10,
+            isMissPoint: true,
+          });
+        }
       }
     });
   });
@@ -59,14 +84,14 @@ function processData(results: TrialResult[]): DataPoint[] {
   return dataPoints;
 }
 
-export function SpeedAccuracyChart({ results }: SpeedAccuracyChartProps) {
-  const data = processData(results);
-
-  const congruentData = data.filter((d) => d.condition === 'congruent');
-  const incongruentData = data.filter((d) => d.condition === 'incongruent');
+export function SpeedAccuracyChart({ results, colors }: SpeedAccuracyChartProps) {
+  const data = processData(results, colors);
+  const conditions = getConditions(results);
+  const misses = countMisses(results);
+  const missedConditions = conditions.filter((condition) => misses[condition] > 0);
 
   // Check for speed-accuracy trade-off pattern
-  const hasTradeOff = incongruentData.some((d) => d.errorRate > 0);
+  const hasTradeOff = data.some((d) => d.condition === 'incongruent' && d.errorRate > 0);
 
   return (
     <div className="w-full">
@@ -117,57 +142,78 @@ export function SpeedAccuracyChart({ results }: SpeedAccuracyChartProps) {
                 borderRadius: '8px',
                 color: '#fafafa',
               }}
-              formatter={(value, name) => {
+              formatter={(value, name, item) => {
                 if (name === 'Reaction Time') return [`${value}ms`, 'Mean RT'];
-                if (name === 'Error Rate') return [`${value}%`, 'Error Rate'];
+                if (name === 'Error Rate') {
+                  const point = item.payload as DataPoint;
+                  return [`${value}%`, point.isMissPoint ? 'Miss Rate' : 'Error Rate'];
+                }
                 return [value, String(name)];
               }}
               labelFormatter={(_, payload) => {
                 if (payload && payload[0]) {
                   const data = payload[0].payload as DataPoint;
-                  return `${data.word} (${data.condition})`;
+                  const colorNote = data.condition === 'neutral' ? ' ink' : '';
+                  const missNote = data.isMissPoint ? `, ${data.misses} missed` : '';
+                  return `${data.word}${colorNote} (${data.condition}${missNote})`;
                 }
                 return '';
               }}
             />
             <ReferenceLine y={0} stroke="#71717a" strokeDasharray="3 3" />
-            <Scatter name="Congruent" data={congruentData} fill="#34d399">
-              {congruentData.map((entry, index) => (
-                <Cell
-                  key={`congruent-${index}`}
-                  fill="#34d399"
-                  stroke="#34d399"
-                  strokeWidth={2}
-                  r={8}
-                />
-              ))}
-            </Scatter>
-            <Scatter name="Incongruent" data={incongruentData} fill="#f43f5e">
-              {incongruentData.map((entry, index) => (
-                <Cell
-                  key={`incongruent-${index}`}
-                  fill="#f43f5e"
-                  stroke="#f43f5e"
-                  strokeWidth={2}
-                  r={8}
-                />
-              ))}
-            </Scatter>
+            {conditions.map((condition) => {
+              const conditionData = data.filter((d) => d.condition === condition);
+              const color = CONDITION_COLORS[condition];
+              return (
+                <Scatter
+                  key={condition}
+                  name={CONDITION_LABELS[condition]}
+                  data={conditionData}
+                  fill={color}
+                >
+                  {conditionData.map((entry, index) => (
+                    <Cell
+                      key={`${condition}-${index}`}
+                      fill={entry.isMissPoint ? 'none' : color}
+                      stroke={color}
+                      strokeWidth={2}
+                      r={8}
+                    />
+                  ))}
+                </Scatter>
+              );
+            })}
           </ScatterChart>
         </ResponsiveContainer>
       </div>
       <div className="flex justify-center gap-6 mt-4 text-sm">
-        <div className="flex items-center gap-2">
-          <div className="w-3 h-3 rounded-full bg-emerald-400" />
-          <span className="text-muted">Congruent</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-3 h-3 rounded-full bg-rose-500" />
-          <span className="text-muted">Incongruent</span>
-        </div>
+        {conditions.map((condition) => (
+          <div key={condition} className="flex items-center gap-2">
+            <div
+              className="w-3 h-3 rounded-full"
+              style={{ backgroundColor: CONDITION_COLORS[condition] }}
+            />
+            <span className="text-muted">{CONDITION_LABELS[condition]}</span>
+          </div>
+        ))}
+        {missedConditions.length > 0 && (
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full border-2 border-muted" />
+            <span className="text-muted">Missed</span>
+          </div>
+        )}
       </div>
+      {missedConditions.length > 0 && (
+        <p className="text-xs text-muted text-center mt-2">
+          Missed:{' '}
+          {missedConditions
+            .map((condition) => `${CONDITION_LABELS[condition]} ${misses[condition]}`)
+            .join(', ')}
+        </p>
+      )}
       <p className="text-xs text-muted text-center mt-2">
         Each point represents one word in one condition
+        {missedConditions.length > 0 && '; rings show the share of its trials that were missed'}
       </p>
     </div>
   );
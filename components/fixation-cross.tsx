@@ -0,0 +1,16 @@
+'use client';
+
+/**
+ * Central fixation point shown before each stimulus. Rendered without an
+ * animation so its offset is not smeared into the blank interval.
+ */
+export function FixationCross() {
+  return (
+    <span
+      aria-label="Fixation cross"
+      className="text-6xl md:text-7xl font-light text-foreground select-none"
+    >
+      +
+    </span>
+  );
+}
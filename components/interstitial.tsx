@@ -0,0 +1,60 @@
+'use client';
+
+import { ReactNode, useEffect } from 'react';
+import { motion } from 'framer-motion';
+
+interface InterstitialProps {
+  title: string;
+  message: string;
+  continueLabel?: string;
+  disabled?: boolean;
+  onContinue: () => void;
+  children?: ReactNode;
+}
+
+export function Interstitial({
+  title,
+  message,
+  continueLabel = 'Continue',
+  disabled = false,
+  onContinue,
+  children,
+}: InterstitialProps) {
+  useEffect(() => {
+    if (disabled) return;
+
+    function handleKeyDown(event: KeyboardEvent) {
+      if (event.key === ' ' || event.key === 'Enter') {
+        event.preventDefault();
+        onContinue();
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [disabled, onContinue]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-card border border-border rounded-xl p-8 max-w-md text-center"
+    >
+      <h2 className="text-2xl font-bold mb-3">{title}</h2>
+      <p className="text-muted mb-6">{message}</p>
+      {children}
+      <motion.button
+        whileHover={disabled ? undefined : { scale: 1.02 }}
+        whileTap={disabled ? undefined : { scale: 0.98 }}
+        onClick={onContinue}
+        disabled={disabled}
+        className="px-6 py-3 bg-emerald-400 text-zinc-900 font-bold rounded-xl
+                   transition-colors hover:bg-emerald-300
+                   disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {continueLabel}
+      </motion.button>
+      {!disabled && <p className="mt-3 text-xs text-muted">or press Space</p>}
+    </motion.div>
+  );
+}
@@ -5,15 +5,16 @@ import { motion } from 'framer-motion';
 interface ProgressBarProps {
   current: number;
   total: number;
+  label?: string;
 }
 
-export function ProgressBar({ current, total }: ProgressBarProps) {
+export function ProgressBar({ current, total, label = 'Trial' }: ProgressBarProps) {
   const progress = (current / total) * 100;
 
   return (
     <div className="w-full max-w-md">
       <div className="flex justify-between text-sm text-muted mb-2">
-        <span>Trial {current} of {total}</span>
+        <span>{label} {current} of {total}</span>
         <span>{Math.round(progress)}%</span>
       </div>
       <div className="h-2 bg-card rounded-full overflow-hidden border border-border">
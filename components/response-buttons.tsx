@@ -1,50 +1,104 @@
 'use client';
 
-import { useEffect } from 'react';
+import { PointerEvent, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { COLORS, ColorKey } from '@/types';
+import {
+  COLORS,
+  ColorKey,
+  ExperimentProtocol,
+  InputModality,
+  ResponseInput,
+  ResponseLayout,
+} from '@/types';
 import { getColorFromKey } from '@/lib/experiment';
+import { getResponseMapping } from '@/lib/protocols';
 
 interface ResponseButtonsProps {
-  onResponse: (color: ColorKey) => void;
+  protocol: ExperimentProtocol;
+  onResponse: (color: ColorKey, input: ResponseInput) => void;
+  // Dims the buttons. Presses are still reported, so early and late
+  // responses can be logged; it is up to the caller to ignore them.
   disabled: boolean;
+  layout?: ResponseLayout;
 }
 
-const buttonConfig: { key: ColorKey; label: string; shortcut: string }[] = [
-  { key: 'yellow', label: 'Y', shortcut: 'y' },
-  { key: 'green', label: 'G', shortcut: 'g' },
-  { key: 'red', label: 'R', shortcut: 'r' },
-];
+function getPointerInput(event: PointerEvent): ResponseInput {
+  return {
+    timestamp: event.timeStamp,
+    modality: (event.pointerType || 'mouse') as InputModality,
+  };
+}
 
-export function ResponseButtons({ onResponse, disabled }: ResponseButtonsProps) {
+export function ResponseButtons({
+  protocol,
+  onResponse,
+  disabled,
+  layout = 'buttons',
+}: ResponseButtonsProps) {
   useEffect(() => {
     function handleKeyDown(event: KeyboardEvent) {
-      if (disabled) return;
-      const color = getColorFromKey(event.key);
+      if (event.repeat) return;
+      const color = getColorFromKey(event.key, protocol);
       if (color) {
-        onResponse(color);
+        onResponse(color, { timestamp: event.timeStamp, modality: 'keyboard' });
       }
     }
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [onResponse, disabled]);
+  }, [protocol, onResponse]);
+
+  if (layout === 'touch') {
+    const mapping = getResponseMapping(protocol);
+    // Full-width zones along the bottom of the screen. No tap animation, and
+    // touch-none stops the browser from scrolling, zooming or sending a
+    // delayed click.
+    return (
+      <div
+        className="fixed inset-x-0 bottom-0 h-2/5 grid gap-2 p-2 touch-none select-none"
+        style={{ gridTemplateColumns: `repeat(${mapping.length}, minmax(0, 1fr))` }}
+      >
+        {mapping.map(({ color }) => (
+          <button
+            key={color}
+            aria-label={COLORS[color].name}
+            aria-disabled={disabled}
+            onPointerDown={(event) => {
+              // A second finger while one is already down is not a response
+              if (!event.isPrimary) return;
+              onResponse(color, getPointerInput(event));
+            }}
+            onContextMenu={(event) => event.preventDefault()}
+            className="rounded-2xl aria-disabled:opacity-50"
+            style={{ backgroundColor: COLORS[color].hex }}
+          />
+        ))}
+      </div>
+    );
+  }
 
   return (
-    <div className="flex gap-4 md:gap-6">
-      {buttonConfig.map(({ key, label }) => (
+    <div className="flex flex-wrap justify-center gap-4 md:gap-6 max-w-md md:max-w-2xl">
+      {getResponseMapping(protocol).map(({ color, key }) => (
         <motion.button
-          key={key}
+          key={color}
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
-          onClick={() => onResponse(key)}
-          disabled={disabled}
+          // Respond on press rather than release, timed from the pointer event
+          onPointerDown={(event) => onResponse(color, getPointerInput(event))}
+          onClick={(event) => {
+            // Keyboard activation of a focused button has no pointer event
+            if (event.detail === 0) {
+              onResponse(color, { timestamp: event.timeStamp, modality: 'keyboard' });
+            }
+          }}
+          aria-disabled={disabled}
           className="w-16 h-16 md:w-20 md:h-20 rounded-xl font-bold text-2xl md:text-3xl
-                     text-zinc-900 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed
-                     shadow-lg"
-          style={{ backgroundColor: COLORS[key].hex }}
+                     text-zinc-900 transition-opacity aria-disabled:opacity-50
+                     aria-disabled:cursor-not-allowed shadow-lg"
+          style={{ backgroundColor: COLORS[color].hex }}
         >
-          {label}
+          {key.toUpperCase()}
         </motion.button>
       ))}
     </div>
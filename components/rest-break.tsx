@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Interstitial } from '@/components/interstitial';
+import { BlockSummary } from '@/types';
+
+interface RestBreakProps {
+  completedBlocks: number;
+  totalBlocks: number;
+  summary?: BlockSummary;
+  minDuration?: number;
+  onContinue: () => void;
+}
+
+export function RestBreak({
+  completedBlocks,
+  totalBlocks,
+  summary,
+  minDuration = 0,
+  onContinue,
+}: RestBreakProps) {
+  const [remainingMs, setRemainingMs] = useState(minDuration);
+
+  useEffect(() => {
+    if (minDuration <= 0) return;
+    const endsAt = Date.now() + minDuration;
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, endsAt - Date.now());
+      setRemainingMs(remaining);
+      if (remaining === 0) clearInterval(interval);
+    }, 250);
+    return () => clearInterval(interval);
+  }, [minDuration]);
+
+  const waiting = remainingMs > 0;
+
+  return (
+    <Interstitial
+      title={`Block ${completedBlocks} of ${totalBlocks} complete`}
+      message="Take a short break. Rest your eyes and hands before the next block."
+      continueLabel={waiting ? `Continue in ${Math.ceil(remainingMs / 1000)}s` : 'Continue'}
+      disabled={waiting}
+      onContinue={onContinue}
+    >
+      {summary && (
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <div className="bg-background rounded-lg p-3">
+            <div className="text-xs text-muted">Mean RT</div>
+            <div className="text-xl font-bold">
+              {summary.meanReactionTime === null
+                ? '–'
+                : `${Math.round(summary.meanReactionTime)}ms`}
+            </div>
+          </div>
+          <div className="bg-background rounded-lg p-3">
+            <div className="text-xs text-muted">Accuracy</div>
+            <div className="text-xl font-bold">{Math.round(summary.accuracy)}%</div>
+          </div>
+        </div>
+      )}
+    </Interstitial>
+  );
+}
@@ -11,18 +11,24 @@ import {
   Legend,
   ErrorBar,
 } from 'recharts';
-import { TrialResult } from '@/types';
+import { TrialResult, TrialCondition, ColorKey } from '@/types';
+import {
+  CONDITION_COLORS,
+  CONDITION_LABELS,
+  formatColorName,
+  getCondition,
+  getConditions,
+  matchesWord,
+} from '@/lib/analysis';
 
 interface ResultsChartProps {
   results: TrialResult[];
+  colors: ColorKey[];
 }
 
 interface WordStats {
   word: string;
-  congruentMean: number;
-  congruentSE: number;
-  incongruentMean: number;
-  incongruentSE: number;
+  [key: string]: string | number; // `${condition}Mean` and `${condition}SE`
 }
 
 function calculateMean(values: number[]): number {
@@ -39,30 +45,34 @@ function calculateStandardError(values: number[]): number {
   return stdDev / Math.sqrt(values.length);
 }
 
-function processResults(results: TrialResult[]): WordStats[] {
-  const words = ['red', 'green', 'yellow'];
-
-  return words.map((word) => {
-    const congruentTimes = results
-      .filter((r) => r.word_text === word && r.is_congruent && r.is_correct)
-      .map((r) => r.reaction_time_ms);
+function processResults(
+  results: TrialResult[],
+  colors: ColorKey[],
+  conditions: TrialCondition[]
+): WordStats[] {
+  return colors.map((word) => {
+    const stats: WordStats = { word: formatColorName(word) };
 
-    const incongruentTimes = results
-      .filter((r) => r.word_text === word && !r.is_congruent && r.is_correct)
-      .map((r) => r.reaction_time_ms);
+    conditions.forEach((condition) => {
+      const times = results
+        .filter((r) => matchesWord(r, word) && getCondition(r) === condition && r.is_correct)
+        .map((r) => r.reaction_time_ms);
+      stats[`${condition}Mean`] = Math.round(calculateMean(times));
+      stats[`${condition}SE`] = Math.round(calculateStandardError(times));
+    });
 
-    return {
-      word: word.charAt(0).toUpperCase() + word.slice(1),
-      congruentMean: Math.round(calculateMean(congruentTimes)),
-      congruentSE: Math.round(calculateStandardError(congruentTimes)),
-      incongruentMean: Math.round(calculateMean(incongruentTimes)),
-      incongruentSE: Math.round(calculateStandardError(incongruentTimes)),
-    };
+    return stats;
   });
 }
 
-export function ResultsChart({ results }: ResultsChartProps) {
-  const data = processResults(results);
+function conditionFromDataKey(dataKey: unknown): TrialCondition | undefined {
+  const key = String(dataKey).replace(/Mean$/, '');
+  return key in CONDITION_LABELS ? (key as TrialCondition) : undefined;
+}
+
+export function ResultsChart({ results, colors }: ResultsChartProps) {
+  const conditions = getConditions(results);
+  const data = processResults(results, colors, conditions);
 
   return (
     <div className="w-full h-80 md:h-96">
@@ -100,45 +110,35 @@ export function ResultsChart({ results }: ResultsChartProps) {
               color: '#fafafa',
             }}
             formatter={(value, name) => {
-              const label = name === 'congruentMean' ? 'Congruent' : 'Incongruent';
-              return [`${value}ms`, label];
+              const condition = conditionFromDataKey(name);
+              return [`${value}ms`, condition ? CONDITION_LABELS[condition] : String(name)];
             }}
             labelStyle={{ color: '#fafafa', fontWeight: 'bold' }}
           />
           <Legend
             formatter={(value) => {
-              if (value === 'congruentMean') return 'Congruent';
-              if (value === 'incongruentMean') return 'Incongruent';
-              return value;
+              const condition = conditionFromDataKey(value);
+              if (condition === 'neutral') return 'Neutral (by ink color)';
+              return condition ? CONDITION_LABELS[condition] : value;
             }}
             wrapperStyle={{ color: '#71717a' }}
           />
-          <Bar
-            dataKey="congruentMean"
-            fill="#34d399"
-            radius={[4, 4, 0, 0]}
-            name="congruentMean"
-          >
-            <ErrorBar
-              dataKey="congruentSE"
-              width={4}
-              strokeWidth={2}
-              stroke="#fafafa"
-            />
-          </Bar>
-          <Bar
-            dataKey="incongruentMean"
-            fill="#f43f5e"
-            radius={[4, 4, 0, 0]}
-            name="incongruentMean"
-          >
-            <ErrorBar
-              dataKey="incongruentSE"
-              width={4}
-              strokeWidth={2}
-              stroke="#fafafa"
-            />
-          </Bar>
+          {conditions.map((condition) => (
+            <Bar
+              key={condition}
+              dataKey={`${condition}Mean`}
+              fill={CONDITION_COLORS[condition]}
+              radius={[4, 4, 0, 0]}
+              name={`${condition}Mean`}
+            >
+              <ErrorBar
+                dataKey={`${condition}SE`}
+                width={4}
+                strokeWidth={2}
+                stroke="#fafafa"
+              />
+            </Bar>
+          ))}
         </BarChart>
       </ResponsiveContainer>
     </div>
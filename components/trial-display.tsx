@@ -1,28 +1,148 @@
 'use client';
 
+import { useEffect, useLayoutEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Trial } from '@/types';
+import { StimulusOffset, StimulusOnset, StimulusRendering, Trial } from '@/types';
+import { ExposureFrames, watchPaintedOnset } from '@/lib/timing';
+import { ComponentDelay, MaskCharacter } from '@/lib/stimulus';
 
 interface TrialDisplayProps {
   trial: Trial;
+  rendering: StimulusRendering;
+  animate?: boolean;
+  onOnset?: (onset: StimulusOnset) => void;
+  frameDuration: number; // ms per refresh, for dropped frames and frame-counted schedules
+  fontSize?: number; // CSS px; overrides the default responsive size
+  exposure?: ExposureFrames | null; // shown until unmount when null
+  mask?: MaskCharacter[] | null; // replaces the word after a limited exposure; blank if null
+  onOffset?: (offset: StimulusOffset) => void;
+  delay?: ComponentDelay | null; // SOA: the word or color patch appears after the other
 }
 
-export function TrialDisplay({ trial }: TrialDisplayProps) {
+export function TrialDisplay({
+  trial,
+  rendering,
+  animate = true,
+  onOnset,
+  frameDuration,
+  fontSize,
+  exposure = null,
+  mask = null,
+  onOffset,
+  delay = null,
+}: TrialDisplayProps) {
+  const elementRef = useRef<HTMLDivElement>(null);
+  const wordRef = useRef<HTMLSpanElement>(null);
+  const maskRef = useRef<HTMLSpanElement>(null);
+  const patchRef = useRef<HTMLSpanElement>(null);
+  const onOnsetRef = useRef(onOnset);
+  const onOffsetRef = useRef(onOffset);
+  const frameDurationRef = useRef(frameDuration);
+  const exposureRef = useRef(exposure);
+  const delayRef = useRef(delay);
+
+  useEffect(() => {
+    onOnsetRef.current = onOnset;
+    onOffsetRef.current = onOffset;
+  });
+
+  // Layout effect, so the first frame watched is the one that paints the word.
+  // Parts are shown and hidden on the DOM directly; a render would land a
+  // frame late.
+  useLayoutEffect(() => {
+    if (!elementRef.current) return;
+    const setVisible = (element: HTMLElement | null, visible: boolean) =>
+      element?.style.setProperty('visibility', visible ? 'visible' : 'hidden');
+    const exposure = exposureRef.current;
+    const delay = delayRef.current;
+
+    const reportOnset = (onset: StimulusOnset) => onOnsetRef.current?.(onset);
+
+    return watchPaintedOnset(elementRef.current, reportOnset, frameDurationRef.current, {
+      exposure: exposure
+        ? {
+            ...exposure,
+            onOffset: (offset: StimulusOffset) => {
+              setVisible(wordRef.current, false);
+              setVisible(maskRef.current, true);
+              onOffsetRef.current?.(offset);
+            },
+            onMaskOffset: () => setVisible(maskRef.current, false),
+          }
+        : undefined,
+      delayed: delay
+        ? {
+            ...delay,
+            show: () => setVisible((delay.component === 'word' ? wordRef : patchRef).current, true),
+            // Responses are timed from the color
+            isOnset: delay.component === 'patch',
+          }
+        : undefined,
+    });
+  }, [trial.id]);
+
+  const textStyle = {
+    fontSize,
+    fontFamily: rendering.font_family ?? undefined,
+    fontWeight: rendering.font_weight,
+    transform: `translate(${rendering.offset_x}px, ${rendering.offset_y}px)`,
+  };
+  const textClassName = `${fontSize === undefined ? 'text-7xl md:text-8xl' : ''}
+    tracking-tight select-none`;
+
   return (
     <motion.div
+      ref={elementRef}
       key={trial.id}
-      initial={{ opacity: 0, scale: 0.9 }}
+      initial={animate ? { opacity: 0, scale: 0.9 } : false}
       animate={{ opacity: 1, scale: 1 }}
-      exit={{ opacity: 0, scale: 0.9 }}
+      exit={animate ? { opacity: 0, scale: 0.9 } : undefined}
       transition={{ duration: 0.15 }}
-      className="flex items-center justify-center"
+      className="relative flex items-center justify-center"
     >
       <span
-        className="text-7xl md:text-8xl font-bold uppercase tracking-tight select-none"
-        style={{ color: trial.fontColor }}
+        ref={wordRef}
+        data-testid="stimulus-word"
+        className={textClassName}
+        style={{
+          ...textStyle,
+          color: rendering.ink,
+          // Stroke drawn under the fill, so the outline doesn't thin the letters
+          WebkitTextStroke: rendering.outline
+            ? `${rendering.outline.width * 2}px ${rendering.outline.color}`
+            : undefined,
+          paintOrder: 'stroke fill',
+          visibility: delay?.component === 'word' ? 'hidden' : undefined,
+        }}
       >
-        {trial.wordText}
+        {rendering.patch && (
+          // Inside the word so it follows its size and offset, painted behind the letters
+          <span
+            ref={patchRef}
+            aria-hidden
+            className="absolute -inset-x-[0.3em] -inset-y-[0.05em] -z-10 rounded-xl"
+            style={{
+              background: rendering.patch,
+              visibility: delay?.component === 'patch' ? 'hidden' : 'visible',
+            }}
+          />
+        )}
+        {rendering.text}
       </span>
+      {mask && (
+        <span
+          ref={maskRef}
+          aria-hidden
+          className={`absolute ${textClassName}`}
+          style={{ ...textStyle, visibility: 'hidden' }}
+        >
+          {mask.map(({ character, color }, i) => (
+            <span key={i} style={{ color }}>
+              {character}
+            </span>
+          ))}
+        </span>
+      )}
     </motion.div>
   );
 }
@@ -0,0 +1,53 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { COLORS, ColorKey } from '@/types';
+
+interface TrialFeedbackProps {
+  correct: boolean;
+  timedOut?: boolean;
+  correctColor: ColorKey;
+}
+
+export function TrialFeedback({ correct, timedOut = false, correctColor }: TrialFeedbackProps) {
+  if (timedOut) {
+    return (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: 0.1 }}
+        className="flex flex-col items-center gap-2 select-none"
+      >
+        <span className="text-4xl md:text-5xl font-bold text-amber-400">Too slow</span>
+        <span className="text-muted">Try to respond a little faster</span>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.1 }}
+      className="flex flex-col items-center gap-2 select-none"
+    >
+      <span
+        className={`text-4xl md:text-5xl font-bold ${
+          correct ? 'text-emerald-400' : 'text-rose-500'
+        }`}
+      >
+        {correct ? 'Correct' : 'Incorrect'}
+      </span>
+      {!correct && (
+        <span className="text-muted">
+          The font color was{' '}
+          <strong style={{ color: COLORS[correctColor].hex }}>
+            {COLORS[correctColor].name}
+          </strong>
+        </span>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,262 @@
+import {
+  BlockSummary,
+  COLORS,
+  ColorKey,
+  CongruencyContextSummary,
+  ExperimentProtocol,
+  InputModality,
+  SoaSummary,
+  TrialCondition,
+  TrialResult,
+} from '@/types';
+import { calculateAverage } from '@/lib/timing';
+
+export const CONDITION_LABELS: Record<TrialCondition, string> = {
+  congruent: 'Congruent',
+  neutral: 'Neutral',
+  incongruent: 'Incongruent',
+};
+
+export const CONDITION_COLORS: Record<TrialCondition, string> = {
+  congruent: '#34d399',
+  neutral: '#a1a1aa',
+  incongruent: '#f43f5e',
+};
+
+/**
+ * Condition of a stored result. Rows recorded before neutral trials existed
+ * only carry is_congruent.
+ */
+export function getCondition(result: TrialResult): TrialCondition {
+  return result.condition ?? (result.is_congruent ? 'congruent' : 'incongruent');
+}
+
+/**
+ * Results that count towards the analysis. Practice trials are stored for
+ * completeness but never scored.
+ */
+export function getScoredResults(results: TrialResult[]): TrialResult[] {
+  return results.filter((r) => (r.phase ?? 'main') === 'main');
+}
+
+/**
+ * Whether a stored result is a miss (no response before the deadline)
+ */
+export function isMiss(result: TrialResult): boolean {
+  return result.timed_out === true;
+}
+
+/**
+ * Whether a stored result was scored on an anticipation (a response
+ * faster than the protocol's anticipation threshold)
+ */
+export function isAnticipated(result: TrialResult): boolean {
+  return result.anticipated === true;
+}
+
+/**
+ * Whether the participant left the task during the trial (another tab or
+ * window, or out of fullscreen), so its RT may include the time away
+ */
+export function isFocusLost(result: TrialResult): boolean {
+  return result.focus_lost === true;
+}
+
+/**
+ * Results with a usable response. Misses, anticipations and focus-loss
+ * trials carry no usable RT and are not errors, so every RT and accuracy
+ * measure starts from these.
+ */
+export function getResponses(results: TrialResult[]): TrialResult[] {
+  return results.filter((r) => !isMiss(r) && !isAnticipated(r) && !isFocusLost(r));
+}
+
+/**
+ * Number of misses in each condition, for charts that show them apart
+ * from the responses
+ */
+export function countMisses(results: TrialResult[]): Record<TrialCondition, number> {
+  const counts: Record<TrialCondition, number> = { congruent: 0, neutral: 0, incongruent: 0 };
+  results.filter(isMiss).forEach((r) => counts[getCondition(r)]++);
+  return counts;
+}
+
+const DEFAULT_MAX_FOCUS_LOSS_RATE = 0.1;
+
+/**
+ * Whether more of the session's scored trials lost focus than the
+ * protocol allows
+ */
+export function hasExcessFocusLoss(protocol: ExperimentProtocol, results: TrialResult[]): boolean {
+  const scored = getScoredResults(results);
+  const maxRate = protocol.maxFocusLossRate ?? DEFAULT_MAX_FOCUS_LOSS_RATE;
+  return scored.length > 0 && scored.filter(isFocusLost).length / scored.length > maxRate;
+}
+
+/**
+ * Input most responses were made with, or null when none was recorded.
+ * Sessions are compared by this, since touch RTs run longer than key presses.
+ */
+export function getPrimaryModality(results: TrialResult[]): InputModality | null {
+  const counts = new Map<InputModality, number>();
+  results.forEach((r) => {
+    if (r.input_modality) counts.set(r.input_modality, (counts.get(r.input_modality) ?? 0) + 1);
+  });
+
+  let primary: InputModality | null = null;
+  for (const [modality, count] of counts) {
+    if (primary === null || count > counts.get(primary)!) primary = modality;
+  }
+  return primary;
+}
+
+/**
+ * Block of a stored result. Rows recorded before multi-block sessions
+ * belong to a single block.
+ */
+export function getBlockIndex(result: TrialResult): number {
+  return result.block_index ?? 0;
+}
+
+/**
+ * Mean correct RT and accuracy for each block present, in block order
+ */
+export function summarizeBlocks(results: TrialResult[]): BlockSummary[] {
+  const blockIndices = [...new Set(results.map(getBlockIndex))].sort((a, b) => a - b);
+
+  return blockIndices.map((blockIndex) => {
+    const blockResults = results.filter((r) => getBlockIndex(r) === blockIndex);
+    const correct = blockResults.filter((r) => r.is_correct);
+    return {
+      blockIndex,
+      meanReactionTime:
+        correct.length > 0 ? calculateAverage(correct.map((r) => r.reaction_time_ms)) : null,
+      accuracy: (correct.length / blockResults.length) * 100,
+    };
+  });
+}
+
+/**
+ * Stroop effect within each proportion-congruency context present, from
+ * mostly congruent to mostly incongruent. Rows recorded before PC contexts
+ * existed are left out.
+ */
+export function summarizeByCongruency(results: TrialResult[]): CongruencyContextSummary[] {
+  const proportions = [
+    ...new Set(
+      results
+        .map((r) => r.congruency_proportion)
+        .filter((p): p is number => p !== undefined)
+    ),
+  ].sort((a, b) => b - a);
+
+  return proportions.map((congruencyProportion) => {
+    const meanCorrectRt = (condition: TrialCondition) => {
+      const times = results
+        .filter(
+          (r) =>
+            r.congruency_proportion === congruencyProportion &&
+            getCondition(r) === condition &&
+            r.is_correct
+        )
+        .map((r) => r.reaction_time_ms);
+      return times.length > 0 ? calculateAverage(times) : null;
+    };
+    const congruentAvg = meanCorrectRt('congruent');
+    const incongruentAvg = meanCorrectRt('incongruent');
+
+    return {
+      congruencyProportion,
+      congruentAvg,
+      incongruentAvg,
+      stroopEffect:
+        congruentAvg === null || incongruentAvg === null ? null : incongruentAvg - congruentAvg,
+    };
+  });
+}
+
+/**
+ * Mean correct RT per condition at each SOA present, from the word
+ * leading most to the color leading most. Results without an SOA are
+ * left out.
+ */
+export function summarizeBySoa(results: TrialResult[]): SoaSummary[] {
+  const soas = [
+    ...new Set(results.map((r) => r.soa_ms).filter((soa): soa is number => soa !== undefined)),
+  ].sort((a, b) => a - b);
+
+  return soas.map((soa) => {
+    const meanCorrectRt = (condition: TrialCondition) => {
+      const times = results
+        .filter((r) => r.soa_ms === soa && getCondition(r) === condition && r.is_correct)
+        .map((r) => r.reaction_time_ms);
+      return times.length > 0 ? calculateAverage(times) : null;
+    };
+    const congruentAvg = meanCorrectRt('congruent');
+    const incongruentAvg = meanCorrectRt('incongruent');
+
+    return {
+      soa,
+      congruentAvg,
+      incongruentAvg,
+      neutralAvg: meanCorrectRt('neutral'),
+      stroopEffect:
+        congruentAvg === null || incongruentAvg === null ? null : incongruentAvg - congruentAvg,
+    };
+  });
+}
+
+/**
+ * Label for an SOA, e.g. "Word 200 ms first"
+ */
+export function formatSoa(soa: number): string {
+  if (soa < 0) return `Word ${-soa} ms first`;
+  if (soa > 0) return `Color ${soa} ms first`;
+  return 'Together';
+}
+
+/**
+ * Label for a PC context, e.g. "Mostly congruent (75%)"
+ */
+export function formatCongruencyContext(proportion: number): string {
+  const percent = `${Math.round(proportion * 100)}%`;
+  if (proportion > 0.5) return `Mostly congruent (${percent})`;
+  if (proportion < 0.5) return `Mostly incongruent (${percent})`;
+  return `Balanced (${percent})`;
+}
+
+/**
+ * Conditions present in the results, in display order
+ * (congruent, neutral, incongruent)
+ */
+export function getConditions(results: TrialResult[]): TrialCondition[] {
+  const present = new Set(results.map(getCondition));
+  const ordered: TrialCondition[] = ['congruent', 'neutral', 'incongruent'];
+  return ordered.filter((condition) => condition !== 'neutral' || present.has(condition));
+}
+
+/**
+ * Ink color of a stored result, looked up from its hex value
+ */
+export function getInkColor(result: TrialResult): ColorKey | undefined {
+  const entry = Object.entries(COLORS).find(([, c]) => c.hex === result.font_color);
+  return entry?.[0] as ColorKey | undefined;
+}
+
+/**
+ * Capitalized color name for chart categories and legends
+ */
+export function formatColorName(color: ColorKey): string {
+  const { name } = COLORS[color];
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Results that belong to a word category. Neutral trials have no color
+ * word, so they are grouped by the ink color instead.
+ */
+export function matchesWord(result: TrialResult, word: string): boolean {
+  return getCondition(result) === 'neutral'
+    ? getInkColor(result) === word
+    : result.word_text === word;
+}
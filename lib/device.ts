@@ -0,0 +1,47 @@
+/**
+ * Device detection for choosing and recording the response layout, and
+ * the display size stimuli were shown at
+ */
+
+import { DeviceInfo, DisplaySize, ExperimentProtocol, ResponseLayout } from '@/types';
+
+export function getDeviceInfo(): DeviceInfo {
+  const pointer = window.matchMedia('(pointer: coarse)').matches
+    ? 'coarse'
+    : window.matchMedia('(pointer: fine)').matches
+      ? 'fine'
+      : 'none';
+  return {
+    pointer,
+    maxTouchPoints: navigator.maxTouchPoints,
+    screenWidth: window.screen.width,
+    screenHeight: window.screen.height,
+  };
+}
+
+/**
+ * Layout a session responds with. On 'auto', devices whose primary pointer
+ * is a finger get the touch zones; everything else the buttons.
+ */
+export function resolveResponseLayout(
+  protocol: ExperimentProtocol,
+  device: DeviceInfo
+): ResponseLayout {
+  const layout = protocol.responseLayout ?? 'auto';
+  if (layout !== 'auto') return layout;
+  return device.pointer === 'coarse' ? 'touch' : 'buttons';
+}
+
+/**
+ * Current window and screen size, recorded so stimulus size on screen can
+ * be reconstructed
+ */
+export function getDisplaySize(): DisplaySize {
+  return {
+    windowWidth: window.innerWidth,
+    windowHeight: window.innerHeight,
+    screenWidth: window.screen.width,
+    screenHeight: window.screen.height,
+    devicePixelRatio: window.devicePixelRatio,
+  };
+}
@@ -0,0 +1,550 @@
+/**
+ * Trial lifecycle as a reducer over ExperimentState
+ * Every change of status is recorded with when it happened. The reducer
+ * keeps no clock of its own: the page runs the timers and dispatches what
+ * happened and when, and stores whatever the state says was recorded.
+ */
+
+import {
+  ColorKey,
+  DisplaySize,
+  ExperimentProtocol,
+  ExperimentState,
+  ExperimentStatus,
+  PracticeConfig,
+  PracticeOutcome,
+  ResponseInput,
+  ResponseStage,
+  StimulusOffset,
+  StimulusOnset,
+  Trial,
+  TrialResult,
+} from '@/types';
+import {
+  createResponseLog,
+  generatePracticeTrials,
+  generateTrials,
+  isAnticipation,
+  isCorrectResponse,
+} from '@/lib/experiment';
+import { getSessionProtocol, getSessionSeed } from '@/lib/session';
+import { getAchievedSoa, getStimulusRendering } from '@/lib/stimulus';
+import { getFirstStage, getNextStage, getTimeline } from '@/lib/timeline';
+import { calculateReactionTime } from '@/lib/timing';
+
+export type ExperimentAction =
+  | { type: 'continue'; at: number } // from a screen that waits for the participant
+  | { type: 'timer'; at: number } // the current timed status has run its duration
+  | { type: 'onset'; onset: StimulusOnset; at: number }
+  | { type: 'offset'; offset: StimulusOffset } // a limited exposure ended
+  | { type: 'press'; response: ColorKey; input: ResponseInput; at: number }
+  | { type: 'deadline'; at: number } // the response deadline passed without a response
+  | { type: 'focus-lost'; at: number } // page hidden or blurred, or fullscreen exited
+  | { type: 'focus-regained'; at: number }
+  | { type: 'fullscreen-exited'; at: number; timestamp: string } // ISO timestamp for the record
+  | { type: 'display-measured'; display: DisplaySize; timestamp: string };
+
+const TRIAL_STATUSES: ExperimentStatus[] = [
+  'fixation',
+  'blank',
+  'stimulus',
+  'feedback',
+  'interval',
+];
+
+export function getPracticeOutcome(
+  practice: PracticeConfig,
+  blockResults: TrialResult[],
+  attempt: number
+): PracticeOutcome {
+  const accuracy = blockResults.filter((r) => r.is_correct).length / blockResults.length;
+  return {
+    accuracy,
+    passed: accuracy >= practice.minAccuracy || attempt + 1 >= practice.maxAttempts,
+  };
+}
+
+/**
+ * First block of a session: practice when the protocol has one
+ */
+function generateFirstBlock(protocol: ExperimentProtocol, seed: number): Trial[] {
+  return protocol.practice
+    ? generatePracticeTrials(protocol, seed)
+    : generateTrials(protocol, seed);
+}
+
+/**
+ * Part of a trial a press in this status falls in, or null when presses
+ * are not part of any trial
+ */
+export function getResponseStage(status: ExperimentStatus): ResponseStage | null {
+  return TRIAL_STATUSES.includes(status) ? (status as ResponseStage) : null;
+}
+
+/**
+ * Fresh session, waiting on the key instructions when the protocol assigns
+ * response keys or on fullscreen when it requires it, and otherwise at its
+ * first trial
+ */
+export function createExperimentState(
+  sessionId: string,
+  protocol: ExperimentProtocol,
+  at: number
+): ExperimentState {
+  const status = protocol.responseKeys
+    ? 'instructions'
+    : protocol.requireFullscreen
+      ? 'fullscreen'
+      : getFirstStage(getTimeline(protocol));
+  return {
+    sessionId,
+    protocolId: protocol.id,
+    phase: protocol.practice ? 'practice' : 'main',
+    practiceAttempt: 0,
+    currentTrialIndex: 0,
+    trials: generateFirstBlock(protocol, getSessionSeed(sessionId)),
+    results: [],
+    isComplete: false,
+    status,
+    transitions: [{ from: null, to: status, at, trialIndex: 0 }],
+    onset: null,
+    offset: null,
+    presses: [],
+    pendingPress: null,
+    acceptedPress: null,
+    timeline: {},
+    currentResult: null,
+    feedback: null,
+    practiceOutcome: null,
+    interrupted: false,
+    focusLostAt: null,
+    focusLostMs: 0,
+    fullscreenExits: [],
+    blockDisplays: [],
+  };
+}
+
+function transition(
+  state: ExperimentState,
+  to: ExperimentStatus,
+  at: number,
+  changes: Partial<ExperimentState> = {}
+): ExperimentState {
+  const next = { ...state, ...changes };
+  return {
+    ...next,
+    status: to,
+    isComplete: to === 'complete',
+    transitions: [
+      ...state.transitions,
+      { from: state.status, to, at, trialIndex: next.currentTrialIndex },
+    ],
+  };
+}
+
+// Stop the current trial part way; it starts over once the session continues
+function interruptTrial(
+  state: ExperimentState,
+  to: ExperimentStatus,
+  at: number,
+  changes: Partial<ExperimentState> = {}
+): ExperimentState {
+  return transition(state, to, at, {
+    onset: null,
+    offset: null,
+    presses: [],
+    pendingPress: null,
+    acceptedPress: null,
+    timeline: {},
+    currentResult: null,
+    feedback: null,
+    interrupted: true,
+    ...changes,
+  });
+}
+
+/**
+ * Hold the session on a waiting screen during a trial. A trial that has no
+ * response yet starts over when the session continues. An answered one is
+ * stored, marked interrupted, and the session continues with the next
+ * trial, so no response is given twice.
+ */
+function suspendTrial(
+  state: ExperimentState,
+  protocol: ExperimentProtocol,
+  to: ExperimentStatus,
+  at: number,
+  changes: Partial<ExperimentState> = {}
+): ExperimentState {
+  if (!state.currentResult) return interruptTrial(state, to, at, changes);
+
+  const answered = { ...state, currentResult: { ...state.currentResult, interrupted: true } };
+  // The end of a block goes to the screen that comes next anyway
+  if (!continuesBlock(state)) return { ...finishTrial(answered, protocol, at), ...changes };
+  return interruptTrial(answered, to, at, {
+    results: [...state.results, recordResult(answered, protocol, at)],
+    currentTrialIndex: state.currentTrialIndex + 1,
+    interrupted: false,
+    ...changes,
+  });
+}
+
+/**
+ * Saved state after a reload. A trial cut off part way waits for the
+ * participant; an unanswered one then starts over and an answered one is
+ * kept. Screens that wait anyway are shown again as they were.
+ */
+export function resumeExperimentState(saved: ExperimentState, at: number): ExperimentState {
+  // Times from before the reload are on the old page's clock
+  const restored = { ...saved, focusLostAt: null };
+  if (!getResponseStage(saved.status)) return { ...restored, focusLostMs: 0 };
+  const protocol = getSessionProtocol(saved.protocolId, saved.sessionId);
+  return suspendTrial(restored, protocol, 'resuming', at, { focusLostMs: 0 });
+}
+
+function beginTrial(
+  state: ExperimentState,
+  protocol: ExperimentProtocol,
+  index: number,
+  at: number,
+  changes: Partial<ExperimentState> = {}
+): ExperimentState {
+  return transition(state, getFirstStage(getTimeline(protocol)), at, {
+    currentTrialIndex: index,
+    onset: null,
+    offset: null,
+    presses: [],
+    pendingPress: null,
+    acceptedPress: null,
+    timeline: {},
+    currentResult: null,
+    feedback: null,
+    // An absence that is still going on counts towards the new trial from its start
+    focusLostAt: state.focusLostAt === null ? null : at,
+    focusLostMs: 0,
+    ...changes,
+  });
+}
+
+function getEnteredAt(state: ExperimentState): number {
+  return state.transitions[state.transitions.length - 1].at;
+}
+
+// Whether the trial after the current one belongs to the same block
+function continuesBlock(state: ExperimentState): boolean {
+  const next = state.trials[state.currentTrialIndex + 1];
+  return next !== undefined && next.blockIndex === state.trials[state.currentTrialIndex].blockIndex;
+}
+
+// Practice trials always get feedback; main trials only a "too slow" message
+function getFeedbackDuration(protocol: ExperimentProtocol, state: ExperimentState): number {
+  if (state.phase === 'practice' && protocol.practice) return protocol.practice.feedbackDuration;
+  return state.currentResult?.timed_out ? protocol.responseDeadline?.tooSlowDuration ?? 0 : 0;
+}
+
+/**
+ * How long the current status lasts before a timer action, or null when
+ * it waits for the participant or a response instead
+ */
+export function getStatusDuration(
+  protocol: ExperimentProtocol,
+  state: ExperimentState
+): number | null {
+  switch (state.status) {
+    case 'fixation':
+      return getTimeline(protocol).fixationDuration;
+    case 'blank':
+      return getTimeline(protocol).blankDuration;
+    case 'feedback':
+      return getFeedbackDuration(protocol, state);
+    case 'interval':
+      // Jittered blank before the next trial of the block; the fixed delay otherwise
+      return continuesBlock(state)
+        ? state.trials[state.currentTrialIndex + 1].interTrialInterval
+        : protocol.interTrialDelay;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Score the current trial. A null press is a miss: the deadline expired first.
+ */
+function scoreTrial(
+  state: ExperimentState,
+  protocol: ExperimentProtocol,
+  pressIndex: number | null,
+  onset: StimulusOnset,
+  at: number
+): ExperimentState {
+  const trial = state.trials[state.currentTrialIndex];
+  const press = pressIndex === null ? null : state.presses[pressIndex];
+  const reactionTime = calculateReactionTime(onset.timestamp, press ? press.input.timestamp : at);
+  const timedOut = press === null;
+  const correct = press !== null && isCorrectResponse(trial, press.response);
+
+  const result: TrialResult = {
+    session_id: state.sessionId,
+    word_text: trial.wordText,
+    font_color: trial.fontColor,
+    is_congruent: trial.condition === 'congruent',
+    condition: trial.condition,
+    reaction_time_ms: reactionTime,
+    user_response: press ? press.response : null,
+    is_correct: correct,
+    timed_out: timedOut,
+    input_modality: press?.input.modality,
+    phase: state.phase,
+    block_index: trial.blockIndex,
+    trial_index: state.currentTrialIndex,
+    congruency_proportion: trial.congruencyProportion,
+    iti_duration_ms: state.timeline.iti,
+    fixation_duration_ms: state.timeline.fixation,
+    blank_duration_ms: state.timeline.blank,
+    stimulus_onset_ms: onset.timestamp,
+    onset_frame_drops: onset.frameDrops,
+    exposure_frames: state.offset?.frames,
+    exposure_ms: state.offset?.duration,
+    ...(protocol.soa && { soa_ms: trial.soa, achieved_soa_ms: getAchievedSoa(trial, onset) }),
+    anticipated: !timedOut && isAnticipation(protocol, reactionTime),
+    interrupted: state.interrupted,
+    stimulus_rendering: getStimulusRendering(protocol, trial),
+  };
+  const scored = {
+    ...state,
+    onset,
+    pendingPress: null,
+    acceptedPress: pressIndex,
+    currentResult: result,
+    interrupted: false,
+  };
+
+  // Feedback, then the inter-trial blank, then the next trial
+  return getFeedbackDuration(protocol, scored) > 0
+    ? transition(scored, 'feedback', at, {
+        feedback: { correct, timedOut, color: trial.colorName as ColorKey },
+      })
+    : transition(scored, 'interval', at);
+}
+
+// The current trial's result with every press and the time away during it
+function recordResult(
+  state: ExperimentState,
+  protocol: ExperimentProtocol,
+  at: number
+): TrialResult {
+  // Presses during feedback and the blank count as late responses to this trial
+  const accepted = state.acceptedPress === null ? null : state.presses[state.acceptedPress];
+  const focusLostMs = getFocusLostMs(state, at);
+  return {
+    ...state.currentResult!,
+    responses: createResponseLog(protocol, state.presses, state.onset!.timestamp, accepted),
+    focus_lost: focusLostMs > 0,
+    focus_lost_ms: focusLostMs,
+  };
+}
+
+/**
+ * Store the scored result once the interval ends and move on: the next
+ * trial, a rest break, the practice outcome or the end of the session
+ */
+function finishTrial(
+  state: ExperimentState,
+  protocol: ExperimentProtocol,
+  at: number
+): ExperimentState {
+  if (!state.currentResult || !state.onset) return state;
+
+  const recorded = recordResult(state, protocol, at);
+  const results = [...state.results, recorded];
+  const nextIndex = state.currentTrialIndex + 1;
+
+  if (state.phase === 'practice' && protocol.practice && nextIndex >= state.trials.length) {
+    return transition(state, 'practice-outcome', at, {
+      results,
+      currentResult: null,
+      practiceOutcome: getPracticeOutcome(
+        protocol.practice,
+        results.slice(-state.trials.length),
+        state.practiceAttempt
+      ),
+    });
+  }
+  if (nextIndex >= state.trials.length) {
+    return transition(state, 'complete', at, { results, currentResult: null });
+  }
+  if (!continuesBlock(state)) {
+    // Block finished - rest before the next one
+    return transition(state, 'rest', at, { results, currentResult: null });
+  }
+  return beginTrial(state, protocol, nextIndex, at, {
+    results,
+    timeline: { iti: at - getEnteredAt(state) },
+  });
+}
+
+// Time away during the current trial, including an absence still going on
+function getFocusLostMs(state: ExperimentState, at: number): number {
+  return state.focusLostMs + (state.focusLostAt === null ? 0 : at - state.focusLostAt);
+}
+
+/**
+ * Track time away from the task. Only time during a trial is charged to it;
+ * absences on the waiting screens leave no mark.
+ */
+function handleFocus(state: ExperimentState, lost: boolean, at: number): ExperimentState {
+  if (lost) return state.focusLostAt === null ? { ...state, focusLostAt: at } : state;
+  if (state.focusLostAt === null) return state;
+  return {
+    ...state,
+    focusLostAt: null,
+    focusLostMs: getResponseStage(state.status) ? getFocusLostMs(state, at) : state.focusLostMs,
+  };
+}
+
+function handleContinue(
+  state: ExperimentState,
+  protocol: ExperimentProtocol,
+  at: number
+): ExperimentState {
+  switch (state.status) {
+    case 'instructions':
+    case 'fullscreen':
+    case 'resuming':
+      return beginTrial(state, protocol, state.currentTrialIndex, at);
+    case 'rest':
+      return beginTrial(state, protocol, state.currentTrialIndex + 1, at);
+    case 'practice-outcome': {
+      if (!state.practiceOutcome) return state;
+      const seed = getSessionSeed(state.sessionId);
+      const { passed } = state.practiceOutcome;
+      const practiceAttempt = passed ? state.practiceAttempt : state.practiceAttempt + 1;
+      return beginTrial(state, protocol, 0, at, {
+        phase: passed ? 'main' : 'practice',
+        practiceAttempt,
+        trials: passed
+          ? generateTrials(protocol, seed)
+          : generatePracticeTrials(protocol, seed, practiceAttempt),
+        practiceOutcome: null,
+      });
+    }
+    default:
+      return state;
+  }
+}
+
+function handleTimer(
+  state: ExperimentState,
+  protocol: ExperimentProtocol,
+  at: number
+): ExperimentState {
+  switch (state.status) {
+    case 'fixation':
+    case 'blank': {
+      const { next } = getNextStage(getTimeline(protocol), state.status);
+      return transition(state, next, at, {
+        timeline: { ...state.timeline, [state.status]: at - getEnteredAt(state) },
+      });
+    }
+    case 'feedback':
+      return transition(state, 'interval', at, { feedback: null });
+    case 'interval':
+      return finishTrial(state, protocol, at);
+    default:
+      return state;
+  }
+}
+
+/**
+ * Log every press made during a trial; only the first one made while the
+ * stimulus is up is scored. A press that beats the onset report waits
+ * for it.
+ */
+function handlePress(
+  state: ExperimentState,
+  protocol: ExperimentProtocol,
+  response: ColorKey,
+  input: ResponseInput,
+  at: number
+): ExperimentState {
+  const stage = getResponseStage(state.status);
+  if (!stage) return state;
+
+  const logged = { ...state, presses: [...state.presses, { response, input, stage }] };
+  if (state.status !== 'stimulus' || state.pendingPress !== null) return logged;
+  const pressIndex = state.presses.length;
+  return state.onset
+    ? scoreTrial(logged, protocol, pressIndex, state.onset, at)
+    : { ...logged, pendingPress: pressIndex };
+}
+
+/**
+ * Record leaving fullscreen, and hold a running trial until the participant
+ * is back in fullscreen. Waiting screens stay as they are.
+ */
+function handleFullscreenExit(
+  state: ExperimentState,
+  protocol: ExperimentProtocol,
+  at: number,
+  timestamp: string
+): ExperimentState {
+  const fullscreenExits = [
+    ...state.fullscreenExits,
+    { timestamp, phase: state.phase, trialIndex: state.currentTrialIndex, status: state.status },
+  ];
+  return getResponseStage(state.status)
+    ? suspendTrial(state, protocol, 'fullscreen', at, { fullscreenExits })
+    : { ...state, fullscreenExits };
+}
+
+/**
+ * Window and screen size for the current block, kept from its first
+ * measurement
+ */
+function handleDisplay(
+  state: ExperimentState,
+  display: DisplaySize,
+  timestamp: string
+): ExperimentState {
+  const { blockIndex } = state.trials[state.currentTrialIndex];
+  const measured = state.blockDisplays.some(
+    (d) => d.phase === state.phase && d.blockIndex === blockIndex
+  );
+  if (measured) return state;
+  const blockDisplay = { ...display, phase: state.phase, blockIndex, timestamp };
+  return { ...state, blockDisplays: [...state.blockDisplays, blockDisplay] };
+}
+
+export function experimentReducer(
+  state: ExperimentState,
+  action: ExperimentAction
+): ExperimentState {
+  const protocol = getSessionProtocol(state.protocolId, state.sessionId);
+
+  switch (action.type) {
+    case 'continue':
+      return handleContinue(state, protocol, action.at);
+    case 'timer':
+      return handleTimer(state, protocol, action.at);
+    case 'press':
+      return handlePress(state, protocol, action.response, action.input, action.at);
+    case 'onset':
+      if (state.status !== 'stimulus' || state.onset) return state;
+      return state.pendingPress === null
+        ? { ...state, onset: action.onset }
+        : scoreTrial(state, protocol, state.pendingPress, action.onset, action.at);
+    case 'offset':
+      if (state.status !== 'stimulus' || !state.onset) return state;
+      return { ...state, offset: action.offset };
+    case 'deadline':
+      if (state.status !== 'stimulus' || !state.onset) return state;
+      return scoreTrial(state, protocol, null, state.onset, action.at);
+    case 'focus-lost':
+    case 'focus-regained':
+      return handleFocus(state, action.type === 'focus-lost', action.at);
+    case 'fullscreen-exited':
+      return handleFullscreenExit(state, protocol, action.at, action.timestamp);
+    case 'display-measured':
+      return handleDisplay(state, action.display, action.timestamp);
+  }
+}
@@ -1,62 +1,283 @@
-import { Trial, COLORS, WORDS, ColorKey } from '@/types';
+import {
+  BlockConfig,
+  Trial,
+  TrialCondition,
+  COLORS,
+  ColorKey,
+  ExperimentProtocol,
+  RecordedResponse,
+  ResponsePress,
+  SessionRecord,
+} from '@/types';
+import { getBlocks, getProtocol, getResponseMapping } from '@/lib/protocols';
+import { createRandom, seedFromString, shuffle } from '@/lib/random';
+import { sequenceTrials } from '@/lib/sequencer';
+import { sampleStimulusOffset } from '@/lib/stimulus';
+import { getTimeline, sampleInterval } from '@/lib/timeline';
+import { calculateReactionTime } from '@/lib/timing';
 
-const TOTAL_TRIALS = 20;
+const DEFAULT_NEUTRAL_WORDS = ['XXXX'];
 
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+interface TrialContext {
+  blockIndex: number;
+  congruencyProportion: number;
 }
 
 function createTrial(
   id: number,
-  wordText: ColorKey,
-  colorName: ColorKey
+  wordText: string,
+  colorName: ColorKey,
+  condition: TrialCondition,
+  context: TrialContext
 ): Trial {
   return {
     id,
     wordText,
     fontColor: COLORS[colorName].hex,
     colorName,
-    isCongruent: wordText === colorName,
+    condition,
+    phase: 'main',
+    ...context,
+    interTrialInterval: 0, // drawn once the order is fixed
+    offsetX: 0,
+    offsetY: 0,
+    soa: 0,
   };
 }
 
-export function generateTrials(): Trial[] {
+/**
+ * Proportion congruent a word is shown with: its item-specific value when
+ * the protocol sets one, otherwise the block's list-wide proportion
+ */
+export function getItemCongruency(
+  protocol: ExperimentProtocol,
+  block: BlockConfig,
+  word: ColorKey
+): number {
+  return protocol.itemCongruency?.[word] ?? block.congruentProportion;
+}
+
+/**
+ * Color-word trials for item-specific proportion congruency. Words get an
+ * equal share of trials, split by their own proportion. Incongruent colors
+ * come from words in the same PC set, so each color keeps the PC of the
+ * words it appears with.
+ */
+function createItemSpecificTrials(
+  protocol: ExperimentProtocol,
+  block: BlockConfig,
+  trialCount: number,
+  blockIndex: number
+): Trial[] {
+  const { stimulusSet } = protocol;
   const trials: Trial[] = [];
-  const halfTrials = Math.floor(TOTAL_TRIALS / 2);
+
+  stimulusSet.forEach((word, wordIndex) => {
+    const count =
+      Math.floor(trialCount / stimulusSet.length) +
+      (wordIndex < trialCount % stimulusSet.length ? 1 : 0);
+    const congruencyProportion = getItemCongruency(protocol, block, word);
+    const congruentTrials = Math.round(count * congruencyProportion);
+    const context = { blockIndex, congruencyProportion };
+
+    const otherColors = stimulusSet.filter((w) => w !== word);
+    const sameSet = otherColors.filter(
+      (w) => getItemCongruency(protocol, block, w) === congruencyProportion
+    );
+    const incongruentColors = sameSet.length > 0 ? sameSet : otherColors;
+
+    for (let i = 0; i < count; i++) {
+      trials.push(
+        i < congruentTrials
+          ? createTrial(trials.length, word, word, 'congruent', context)
+          : createTrial(
+              trials.length,
+              word,
+              incongruentColors[(i - congruentTrials) % incongruentColors.length],
+              'incongruent',
+              context
+            )
+      );
+    }
+  });
+
+  return trials;
+}
+
+/**
+ * Unordered trial pool in the block's proportions
+ */
+function createTrialPool(
+  protocol: ExperimentProtocol,
+  block: BlockConfig,
+  blockIndex: number
+): Trial[] {
+  const { stimulusSet } = protocol;
+  const neutralWords = protocol.neutralWords ?? DEFAULT_NEUTRAL_WORDS;
+  const context = { blockIndex, congruencyProportion: block.congruentProportion };
+  const neutralTrials = Math.round(block.trialCount * (block.neutralProportion ?? 0));
+
+  const trials: Trial[] = protocol.itemCongruency
+    ? createItemSpecificTrials(protocol, block, block.trialCount - neutralTrials, blockIndex)
+    : [];
+  const congruentTrials = protocol.itemCongruency
+    ? 0
+    : Math.round(block.trialCount * block.congruentProportion);
 
   // Generate congruent trials (word matches color)
-  for (let i = 0; i < halfTrials; i++) {
-    const word = WORDS[i % WORDS.length];
-    trials.push(createTrial(trials.length, word, word));
+  for (let i = 0; i < congruentTrials; i++) {
+    const word = stimulusSet[i % stimulusSet.length];
+    trials.push(createTrial(trials.length, word, word, 'congruent', context));
+  }
+
+  // Generate neutral trials (non-color word or letter string)
+  for (let i = 0; i < neutralTrials; i++) {
+    const word = neutralWords[i % neutralWords.length];
+    const color = stimulusSet[i % stimulusSet.length];
+    trials.push(createTrial(trials.length, word, color, 'neutral', context));
   }
 
   // Generate incongruent trials (word doesn't match color)
-  for (let i = 0; i < TOTAL_TRIALS - halfTrials; i++) {
-    const word = WORDS[i % WORDS.length];
+  const incongruentTrials = block.trialCount - trials.length;
+  for (let i = 0; i < incongruentTrials; i++) {
+    const word = stimulusSet[i % stimulusSet.length];
     // Pick a different color than the word
-    const otherColors = WORDS.filter((w) => w !== word);
+    const otherColors = stimulusSet.filter((w) => w !== word);
     const color = otherColors[i % otherColors.length];
-    trials.push(createTrial(trials.length, word, color));
+    trials.push(createTrial(trials.length, word, color, 'incongruent', context));
   }
 
-  // Shuffle and reassign IDs
-  const shuffled = shuffleArray(trials);
-  return shuffled.map((trial, index) => ({ ...trial, id: index }));
+  return trials;
+}
+
+/**
+ * Unordered trial pool for one block. In SOA mode each SOA gets its own
+ * share of the block's trial mix, so SOA is crossed with condition and word.
+ */
+function createBlockTrials(
+  protocol: ExperimentProtocol,
+  block: BlockConfig,
+  blockIndex: number
+): Trial[] {
+  const soas = protocol.soa?.values ?? [0];
+  return soas
+    .flatMap((soa, i) => {
+      const trialCount =
+        Math.floor(block.trialCount / soas.length) + (i < block.trialCount % soas.length ? 1 : 0);
+      return createTrialPool(protocol, { ...block, trialCount }, blockIndex).map((trial) => ({
+        ...trial,
+        soa,
+      }));
+    })
+    .map((trial, id) => ({ ...trial, id }));
+}
+
+/**
+ * Build the trial sequence for a protocol. Passing a seed makes the order
+ * fully reproducible; without one the shuffle uses Math.random().
+ * Each block is ordered on its own, so sequence constraints never span a
+ * rest break. Protocols with sequence constraints are ordered by the
+ * constraint sequencer, which throws a SequenceConstraintError if they
+ * can't be met.
+ */
+export function generateTrials(
+  protocol: ExperimentProtocol = getProtocol(),
+  seed?: number
+): Trial[] {
+  const random = seed === undefined ? Math.random : createRandom(seed);
+  // Separate streams, so jitter settings never change the trial order
+  const timingRandom =
+    seed === undefined ? Math.random : createRandom(seedFromString(`${seed}:timeline`));
+  const positionRandom =
+    seed === undefined ? Math.random : createRandom(seedFromString(`${seed}:position`));
+  const { interTrialInterval } = getTimeline(protocol);
+
+  // Shuffle (or sequence under constraints) each block and reassign IDs
+  const ordered = getBlocks(protocol).flatMap((block, blockIndex) => {
+    const trials = createBlockTrials(protocol, block, blockIndex);
+    return protocol.sequenceConstraints
+      ? sequenceTrials(trials, protocol.sequenceConstraints, random)
+      : shuffle(trials, random);
+  });
+  return ordered.map((trial, index) => {
+    const offset = sampleStimulusOffset(protocol, positionRandom);
+    return {
+      ...trial,
+      id: index,
+      interTrialInterval: sampleInterval(interTrialInterval, timingRandom),
+      offsetX: offset.x,
+      offsetY: offset.y,
+    };
+  });
+}
+
+/**
+ * Build a practice block for the protocol. Each attempt gets its own order,
+ * derived from the session seed so repeats are reproducible too.
+ */
+export function generatePracticeTrials(
+  protocol: ExperimentProtocol,
+  seed?: number,
+  attempt = 0
+): Trial[] {
+  if (!protocol.practice) return [];
+
+  const practiceSeed =
+    seed === undefined ? undefined : seedFromString(`${seed}:practice:${attempt}`);
+  const trials = generateTrials(
+    { ...protocol, totalTrials: protocol.practice.trialCount, blocks: undefined },
+    practiceSeed
+  );
+  return trials.map((trial) => ({ ...trial, phase: 'practice' }));
 }
 
-export function getColorFromKey(key: string): ColorKey | null {
+/**
+ * Regenerate the exact sequence a stored session was shown
+ */
+export function reconstructTrials(session: SessionRecord): Trial[] {
+  return generateTrials(getProtocol(session.protocol_id), session.seed);
+}
+
+export function getColorFromKey(
+  key: string,
+  protocol: ExperimentProtocol = getProtocol()
+): ColorKey | null {
   const keyLower = key.toLowerCase();
-  if (keyLower === 'r') return 'red';
-  if (keyLower === 'g') return 'green';
-  if (keyLower === 'y') return 'yellow';
-  return null;
+  const mapping = getResponseMapping(protocol).find((r) => r.key === keyLower);
+  return mapping ? mapping.color : null;
 }
 
 export function isCorrectResponse(trial: Trial, response: ColorKey): boolean {
   return trial.colorName === response;
 }
+
+/**
+ * Whether a reaction time is too fast to be a response to the stimulus.
+ * Without a threshold only presses before the onset count.
+ */
+export function isAnticipation(protocol: ExperimentProtocol, reactionTime: number): boolean {
+  return reactionTime < (protocol.anticipationThreshold ?? 0);
+}
+
+/**
+ * Every press made during a trial, timed from its stimulus onset. The
+ * accepted press is the one the trial was scored on; null for a miss.
+ */
+export function createResponseLog(
+  protocol: ExperimentProtocol,
+  presses: ResponsePress[],
+  onsetTimestamp: number,
+  accepted: ResponsePress | null
+): RecordedResponse[] {
+  return presses.map((press) => {
+    const reactionTime = calculateReactionTime(onsetTimestamp, press.input.timestamp);
+    return {
+      response: press.response,
+      rt_ms: reactionTime,
+      modality: press.input.modality,
+      stage: press.stage,
+      anticipation: isAnticipation(protocol, reactionTime),
+      accepted: press === accepted,
+    };
+  });
+}
@@ -0,0 +1,379 @@
+import { BlockConfig, COLORS, ColorKey, ExperimentProtocol, ResponseKey } from '@/types';
+import { expectedInterval, getTimeline } from '@/lib/timeline';
+
+export const DEFAULT_PROTOCOL_ID = 'classic';
+
+export class ResponseKeysError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResponseKeysError';
+  }
+}
+
+export const PROTOCOLS: ExperimentProtocol[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    description: 'Balanced congruent/incongruent trials',
+    totalTrials: 20,
+    congruentProportion: 0.5,
+    interTrialDelay: 500,
+    stimulusSet: ['red', 'green', 'yellow'],
+  },
+  {
+    id: 'extended',
+    name: 'Extended',
+    description: 'Practice block plus a longer session for more stable estimates',
+    totalTrials: 60,
+    congruentProportion: 0.5,
+    interTrialDelay: 500,
+    animateStimulus: false,
+    timeline: {
+      fixationDuration: 500,
+      blankDuration: 200,
+      interTrialInterval: { type: 'uniform', min: 400, max: 800 },
+    },
+    anticipationThreshold: 150,
+    responseDeadline: {
+      duration: 2000,
+      tooSlowDuration: 800,
+    },
+    stimulusSet: ['red', 'green', 'yellow'],
+    sequenceConstraints: {
+      maxConditionRun: 3,
+      noStimulusRepeat: true,
+      noNegativePriming: true,
+      balanceTransitions: true,
+    },
+    practice: {
+      trialCount: 6,
+      feedbackDuration: 800,
+      minAccuracy: 0.8,
+      maxAttempts: 3,
+    },
+  },
+  {
+    id: 'neutral-baseline',
+    name: 'Neutral Baseline',
+    description: 'Adds XXXX trials to separate interference from facilitation',
+    totalTrials: 36,
+    congruentProportion: 1 / 3,
+    neutralProportion: 1 / 3,
+    neutralWords: ['XXXX'],
+    interTrialDelay: 500,
+    stimulusSet: ['red', 'green', 'yellow'],
+    sequenceConstraints: {
+      maxConditionRun: 3,
+      noStimulusRepeat: true,
+    },
+  },
+  {
+    id: 'five-color',
+    name: 'Five Colors',
+    description: 'Adds blue and purple for more incongruent pairings',
+    totalTrials: 60,
+    congruentProportion: 0.5,
+    interTrialDelay: 500,
+    stimulusSet: ['red', 'green', 'yellow', 'blue', 'purple'],
+    sequenceConstraints: {
+      maxConditionRun: 3,
+      noStimulusRepeat: true,
+    },
+  },
+  {
+    id: 'mostly-congruent',
+    name: 'Mostly Congruent',
+    description: 'List-wide 75% congruent context',
+    totalTrials: 60,
+    congruentProportion: 0.75,
+    interTrialDelay: 500,
+    stimulusSet: ['red', 'green', 'yellow'],
+    sequenceConstraints: {
+      noStimulusRepeat: true,
+    },
+  },
+  {
+    id: 'mostly-incongruent',
+    name: 'Mostly Incongruent',
+    description: 'List-wide 25% congruent context',
+    totalTrials: 60,
+    congruentProportion: 0.25,
+    interTrialDelay: 500,
+    stimulusSet: ['red', 'green', 'yellow'],
+    sequenceConstraints: {
+      noStimulusRepeat: true,
+    },
+  },
+  {
+    id: 'item-specific',
+    name: 'Item-Specific PC',
+    description: 'Red and green are mostly congruent, yellow and blue mostly incongruent',
+    totalTrials: 96,
+    congruentProportion: 0.5,
+    itemCongruency: {
+      red: 0.75,
+      green: 0.75,
+      yellow: 0.25,
+      blue: 0.25,
+    },
+    interTrialDelay: 500,
+    stimulusSet: ['red', 'green', 'yellow', 'blue'],
+    sequenceConstraints: {
+      maxConditionRun: 4,
+      noStimulusRepeat: true,
+    },
+  },
+  {
+    id: 'blocked',
+    name: 'Blocked',
+    description: 'Four blocks of 30 with varying congruency and rest breaks in between',
+    totalTrials: 120,
+    congruentProportion: 0.5,
+    interTrialDelay: 500,
+    requireFullscreen: true,
+    stimulusHeight: 1.5,
+    timeline: {
+      fixationDuration: 500,
+      blankDuration: 0,
+      interTrialInterval: { type: 'exponential', min: 300, max: 1500, mean: 400 },
+    },
+    timingRequirements: {
+      minRefreshRate: 50,
+      maxFrameJitter: 4,
+      maxTimerResolution: 1,
+      maxEventLatency: 50,
+      blockOnFailure: true,
+    },
+    colorScreening: {
+      trialsPerPair: 2,
+      minAccuracy: 0.8,
+      onFailure: 'exclude',
+    },
+    anticipationThreshold: 150,
+    responseDeadline: {
+      duration: 2000,
+      tooSlowDuration: 800,
+    },
+    stimulusSet: ['red', 'green', 'yellow'],
+    sequenceConstraints: {
+      maxConditionRun: 4,
+      noStimulusRepeat: true,
+    },
+    blocks: [
+      { trialCount: 30, congruentProportion: 0.5 },
+      { trialCount: 30, congruentProportion: 0.25 },
+      { trialCount: 30, congruentProportion: 0.75 },
+      { trialCount: 30, congruentProportion: 0.5 },
+    ],
+    restBreak: {
+      minDuration: 10000,
+      showSummary: true,
+    },
+  },
+  {
+    id: 'counterbalanced',
+    name: 'Counterbalanced Keys',
+    description: 'D/F/J/K keys with the color assignment rotated across participants',
+    totalTrials: 48,
+    congruentProportion: 0.5,
+    interTrialDelay: 500,
+    stimulusSet: ['red', 'green', 'yellow', 'blue'],
+    responseKeys: {
+      keys: ['d', 'f', 'j', 'k'],
+      counterbalance: 'rotation',
+    },
+    sequenceConstraints: {
+      maxConditionRun: 3,
+      noStimulusRepeat: true,
+    },
+  },
+  {
+    id: 'position-uncertainty',
+    name: 'Position Uncertainty',
+    description: 'Outlined lowercase words at a random spot on a mid-gray background',
+    totalTrials: 48,
+    congruentProportion: 0.5,
+    interTrialDelay: 500,
+    stimulusStyle: {
+      fontWeight: 600,
+      letterCase: 'lower',
+      background: '#71717a',
+      outline: { color: '#18181b', width: 1 },
+      positionJitter: { width: 320, height: 96 },
+    },
+    stimulusSet: ['red', 'green', 'yellow'],
+    sequenceConstraints: {
+      maxConditionRun: 3,
+      noStimulusRepeat: true,
+    },
+  },
+  {
+    id: 'brief-exposure',
+    name: 'Brief Exposure',
+    description: 'Words flashed for 100 ms and replaced by a pattern mask',
+    totalTrials: 48,
+    congruentProportion: 0.5,
+    interTrialDelay: 500,
+    animateStimulus: false,
+    exposure: {
+      duration: 100,
+      mask: 'pattern',
+      maskDuration: 200,
+    },
+    timeline: {
+      fixationDuration: 500,
+      blankDuration: 0,
+      interTrialInterval: { type: 'uniform', min: 400, max: 800 },
+    },
+    timingRequirements: {
+      minRefreshRate: 50,
+      maxFrameJitter: 4,
+    },
+    responseDeadline: {
+      duration: 2000,
+    },
+    stimulusSet: ['red', 'green', 'yellow'],
+    sequenceConstraints: {
+      maxConditionRun: 3,
+      noStimulusRepeat: true,
+    },
+  },
+  {
+    id: 'soa',
+    name: 'Color-Word SOA',
+    description: 'Color patch and gray word shown apart, either one up to 400 ms first',
+    totalTrials: 120,
+    congruentProportion: 0.5,
+    interTrialDelay: 500,
+    animateStimulus: false,
+    soa: {
+      values: [-400, -200, 0, 200, 400],
+    },
+    timeline: {
+      fixationDuration: 500,
+      blankDuration: 0,
+      interTrialInterval: { type: 'uniform', min: 400, max: 800 },
+    },
+    anticipationThreshold: 150,
+    responseDeadline: {
+      duration: 2500,
+    },
+    stimulusSet: ['red', 'green', 'yellow'],
+    sequenceConstraints: {
+      maxConditionRun: 3,
+      noStimulusRepeat: true,
+    },
+  },
+];
+
+export function getProtocol(id?: string | null): ExperimentProtocol {
+  return (
+    PROTOCOLS.find((protocol) => protocol.id === id) ??
+    PROTOCOLS.find((protocol) => protocol.id === DEFAULT_PROTOCOL_ID)!
+  );
+}
+
+/**
+ * Blocks of the main phase. Protocols without explicit blocks run as a
+ * single block using the protocol-level trial count and proportions.
+ */
+export function getBlocks(protocol: ExperimentProtocol): BlockConfig[] {
+  return (
+    protocol.blocks ?? [
+      {
+        trialCount: protocol.totalTrials,
+        congruentProportion: protocol.congruentProportion,
+        neutralProportion: protocol.neutralProportion,
+      },
+    ]
+  );
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map((rest) => [
+      item,
+      ...rest,
+    ])
+  );
+}
+
+function getColorOrders(colors: ColorKey[], counterbalance = 'none'): ColorKey[][] {
+  switch (counterbalance) {
+    case 'rotation':
+      return colors.map((_, shift) =>
+        colors.map((_, i) => colors[(i + shift) % colors.length])
+      );
+    case 'permutation':
+      return permutations(colors);
+    default:
+      return [colors];
+  }
+}
+
+/**
+ * Every mapping a participant can be assigned, in button order. Protocols
+ * without response keys have just the one. Throws a ResponseKeysError when
+ * the keys don't match the stimulus colors one to one.
+ */
+export function getResponseMappings(protocol: ExperimentProtocol): ResponseKey[][] {
+  const { responseKeys, stimulusSet } = protocol;
+  if (!responseKeys) {
+    return [
+      protocol.responseMapping ??
+        stimulusSet.map((color) => ({ color, key: COLORS[color].key })),
+    ];
+  }
+  if (responseKeys.keys.length !== stimulusSet.length) {
+    throw new ResponseKeysError(
+      `Protocol "${protocol.id}" has ${responseKeys.keys.length} response keys for ` +
+        `${stimulusSet.length} stimulus colors; it needs one key per color`
+    );
+  }
+
+  return getColorOrders(stimulusSet, responseKeys.counterbalance).map((order) =>
+    responseKeys.keys.map((key, i) => ({ color: order[i], key: key.toLowerCase() }))
+  );
+}
+
+/**
+ * Response keys in button order. Protocols without an explicit mapping use
+ * each stimulus color's default key; counterbalanced protocols the first
+ * mapping until one is assigned with assignResponseMapping().
+ */
+export function getResponseMapping(protocol: ExperimentProtocol): ResponseKey[] {
+  return protocol.responseMapping ?? getResponseMappings(protocol)[0];
+}
+
+/**
+ * The protocol as one participant runs it, with their counterbalanced key
+ * mapping fixed in responseMapping
+ */
+export function assignResponseMapping(
+  protocol: ExperimentProtocol,
+  seed: number
+): ExperimentProtocol {
+  if (!protocol.responseKeys) return protocol;
+  const mappings = getResponseMappings(protocol);
+  return { ...protocol, responseMapping: mappings[seed % mappings.length] };
+}
+
+/**
+ * Estimated session length in minutes, assuming ~1s per response on top of
+ * the trial timeline, the minimum rest between blocks, plus a minute for
+ * reading the instructions
+ */
+export function estimateDurationMinutes(protocol: ExperimentProtocol): number {
+  const timeline = getTimeline(protocol);
+  const msPerTrial =
+    1000 +
+    expectedInterval(timeline.interTrialInterval) +
+    timeline.fixationDuration +
+    timeline.blankDuration;
+  const practiceMs = protocol.practice
+    ? protocol.practice.trialCount * (msPerTrial + protocol.practice.feedbackDuration)
+    : 0;
+  const restMs = (getBlocks(protocol).length - 1) * (protocol.restBreak?.minDuration ?? 0);
+  return Math.ceil((protocol.totalTrials * msPerTrial + practiceMs + restMs) / 60000) + 1;
+}
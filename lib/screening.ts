@@ -0,0 +1,144 @@
+/**
+ * Color-vision screening built from the protocol's stimulus palette
+ * Each item shows a set of patches in one color with a single patch in
+ * another; the participant picks the odd one out. Both colors of an item
+ * are matched in luminance, so only hue tells them apart.
+ */
+
+import { COLORS, ColorKey, ColorScreeningResult, ExperimentProtocol } from '@/types';
+import { RandomSource, createRandom, seedFromString, shuffle } from '@/lib/random';
+
+export const SCREENING_PATCH_COUNT = 4;
+
+// Patch luminance varies by up to this much either way around the pair's
+// shared level, so small mismatches in the display's gamma give no cue
+export const LUMINANCE_JITTER = 0.15;
+
+export interface ScreeningItem {
+  color: ColorKey; // shared by every patch but one
+  oddColor: ColorKey;
+  oddIndex: number;
+  patches: string[]; // hex per patch, the palette hue at the item's luminance
+}
+
+function toLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(value: number): string {
+  const c = value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255)
+    .toString(16)
+    .padStart(2, '0');
+}
+
+function toLinearRgb(hex: string): number[] {
+  return [1, 3, 5].map((i) => toLinear(parseInt(hex.slice(i, i + 2), 16)));
+}
+
+/**
+ * WCAG relative luminance of a #rrggbb color, 0 (black) to 1 (white)
+ */
+export function getRelativeLuminance(hex: string): number {
+  const [r, g, b] = toLinearRgb(hex);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// The same hue at another luminance, by scaling the linear channels
+function withLuminance(hex: string, luminance: number): string {
+  const scale = luminance / getRelativeLuminance(hex);
+  return `#${toLinearRgb(hex)
+    .map((c) => fromLinear(c * scale))
+    .join('')}`;
+}
+
+function getColorPairs(colors: ColorKey[]): [ColorKey, ColorKey][] {
+  return colors.flatMap((a, i) => colors.slice(i + 1).map((b) => [a, b] as [ColorKey, ColorKey]));
+}
+
+/**
+ * Luminance both colors of a pair are shown at: the darker one's, lowered
+ * so the jitter never has to brighten a channel past the palette color
+ */
+export function getPairLuminance(a: ColorKey, b: ColorKey): number {
+  const darker = Math.min(getRelativeLuminance(COLORS[a].hex), getRelativeLuminance(COLORS[b].hex));
+  return darker / (1 + LUMINANCE_JITTER);
+}
+
+function createItem(color: ColorKey, oddColor: ColorKey, random: RandomSource): ScreeningItem {
+  const oddIndex = Math.floor(random() * SCREENING_PATCH_COUNT);
+  const luminance = getPairLuminance(color, oddColor);
+  return {
+    color,
+    oddColor,
+    oddIndex,
+    patches: Array.from({ length: SCREENING_PATCH_COUNT }, (_, i) =>
+      withLuminance(
+        COLORS[i === oddIndex ? oddColor : color].hex,
+        luminance * (1 + (random() * 2 - 1) * LUMINANCE_JITTER)
+      )
+    ),
+  };
+}
+
+/**
+ * Screening items for a session, in a reproducible order. Each pair of
+ * stimulus colors is tested both ways round.
+ */
+export function generateScreeningItems(
+  protocol: ExperimentProtocol,
+  sessionId: string
+): ScreeningItem[] {
+  if (!protocol.colorScreening) return [];
+
+  const random = createRandom(seedFromString(`${sessionId}:screening`));
+  const items = getColorPairs(protocol.stimulusSet).flatMap(([a, b]) =>
+    Array.from({ length: protocol.colorScreening!.trialsPerPair }, (_, i) =>
+      i % 2 === 0 ? createItem(a, b, random) : createItem(b, a, random)
+    )
+  );
+  return shuffle(items, random);
+}
+
+/**
+ * Score the answers (chosen patch index per item) against the protocol's
+ * screening criterion
+ */
+export function scoreScreening(
+  protocol: ExperimentProtocol,
+  items: ScreeningItem[],
+  answers: number[]
+): ColorScreeningResult {
+  const confusedPairs: [ColorKey, ColorKey][] = [];
+  let correct = 0;
+
+  items.forEach((item, i) => {
+    if (answers[i] === item.oddIndex) {
+      correct++;
+      return;
+    }
+    const pair = [item.color, item.oddColor].sort() as [ColorKey, ColorKey];
+    if (!confusedPairs.some(([a, b]) => a === pair[0] && b === pair[1])) confusedPairs.push(pair);
+  });
+
+  const accuracy = items.length > 0 ? correct / items.length : 1;
+  return {
+    trials: items.length,
+    correct,
+    accuracy,
+    confusedPairs,
+    passed: accuracy >= (protocol.colorScreening?.minAccuracy ?? 0),
+  };
+}
+
+/**
+ * Whether a session should be left out of the analysis because of its
+ * screening result
+ */
+export function isExcludedByScreening(
+  protocol: ExperimentProtocol,
+  result: ColorScreeningResult | null
+): boolean {
+  return protocol.colorScreening?.onFailure === 'exclude' && result?.passed === false;
+}
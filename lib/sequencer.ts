@@ -0,0 +1,253 @@
+/**
+ * Constraint-based trial sequencing
+ * Orders a fixed pool of trials so that run lengths, immediate repeats and
+ * priming transitions stay within the protocol's rules
+ */
+
+import { Trial, SequenceConstraints } from '@/types';
+import { RandomSource, shuffle } from '@/lib/random';
+
+const MAX_ATTEMPTS = 50;
+const MAX_STEPS_PER_ATTEMPT = 2000;
+const TRANSITION_TOLERANCE = 0.1; // fraction of the expected count, never below 1
+
+export class SequenceConstraintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SequenceConstraintError';
+  }
+}
+
+function stimulusOf(trial: Trial): string {
+  return `${trial.wordText}:${trial.colorName}`;
+}
+
+function countByCondition(trials: Trial[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  trials.forEach((t) => counts.set(t.condition, (counts.get(t.condition) ?? 0) + 1));
+  return counts;
+}
+
+function transitionKey(from: Trial, to: Trial): string {
+  return `${from.condition}>${to.condition}`;
+}
+
+function describeConstraints(constraints: SequenceConstraints): string {
+  const rules: string[] = [];
+  if (constraints.maxConditionRun) rules.push(`maxConditionRun=${constraints.maxConditionRun}`);
+  if (constraints.noStimulusRepeat) rules.push('noStimulusRepeat');
+  if (constraints.noNegativePriming) rules.push('noNegativePriming');
+  if (constraints.balanceTransitions) rules.push('balanceTransitions');
+  return rules.join(', ');
+}
+
+function transitionTolerance(expected: number): number {
+  return Math.max(1, Math.round(expected * TRANSITION_TOLERANCE));
+}
+
+/**
+ * Expected count of each condition transition in a random permutation
+ */
+function expectedTransitions(trials: Trial[]): Map<string, number> {
+  const counts = countByCondition(trials);
+
+  const expected = new Map<string, number>();
+  for (const [from, fromCount] of counts) {
+    for (const [to, toCount] of counts) {
+      const pairs = fromCount * (from === to ? toCount - 1 : toCount);
+      expected.set(`${from}>${to}`, pairs / (trials.length - 1));
+    }
+  }
+  return expected;
+}
+
+function violatesLocalRules(
+  sequence: Trial[],
+  candidate: Trial,
+  constraints: SequenceConstraints
+): boolean {
+  const previous = sequence[sequence.length - 1];
+  if (!previous) return false;
+
+  if (constraints.noStimulusRepeat && stimulusOf(previous) === stimulusOf(candidate)) {
+    return true;
+  }
+
+  // Negative priming: the word ignored on an incongruent trial is the color named next
+  if (
+    constraints.noNegativePriming &&
+    previous.condition === 'incongruent' &&
+    candidate.colorName === previous.wordText
+  ) {
+    return true;
+  }
+
+  if (constraints.maxConditionRun) {
+    let run = 0;
+    for (let i = sequence.length - 1; i >= 0; i--) {
+      if (sequence[i].condition !== candidate.condition) break;
+      run++;
+    }
+    if (run >= constraints.maxConditionRun) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Reject up front the run-length limits no ordering could satisfy
+ */
+function assertRunLengthFeasible(trials: Trial[], maxRun: number) {
+  const counts = countByCondition(trials);
+
+  for (const [condition, count] of counts) {
+    const others = trials.length - count;
+    if (count > maxRun * (others + 1)) {
+      throw new SequenceConstraintError(
+        `Cannot sequence ${trials.length} trials: ${count} ${condition} trials cannot be ` +
+          `split into runs of at most ${maxRun} by only ${others} other trials`
+      );
+    }
+  }
+}
+
+/**
+ * One randomized depth-first attempt. Trials with the same stimulus are
+ * interchangeable, so the search branches over distinct stimuli only.
+ */
+function attemptSequence(
+  trials: Trial[],
+  constraints: SequenceConstraints,
+  expected: Map<string, number> | null,
+  random: RandomSource
+): Trial[] | null {
+  const groups = new Map<string, Trial[]>();
+  shuffle(trials, random).forEach((trial) => {
+    const stimulus = stimulusOf(trial);
+    groups.set(stimulus, [...(groups.get(stimulus) ?? []), trial]);
+  });
+
+  const sequence: Trial[] = [];
+  const transitions = new Map<string, number>();
+  const remainingByCondition = countByCondition(trials);
+  let steps = 0;
+
+  // After placing the candidate, every condition must still fit into runs
+  // separated by the trials of the other conditions
+  function exhaustsRunCapacity(candidate: Trial): boolean {
+    const maxRun = constraints.maxConditionRun;
+    if (!maxRun) return false;
+
+    const placed = candidate.condition;
+    let run = 1;
+    for (let i = sequence.length - 1; i >= 0 && sequence[i].condition === placed; i--) run++;
+    const remainingTotal = trials.length - sequence.length - 1;
+
+    for (const [condition, count] of remainingByCondition) {
+      const left = condition === placed ? count - 1 : count;
+      const capacityNow = condition === placed ? maxRun - run : maxRun;
+      if (left > capacityNow + maxRun * (remainingTotal - left)) return true;
+    }
+    return false;
+  }
+
+  function exceedsTransitionBudget(candidate: Trial): boolean {
+    const previous = sequence[sequence.length - 1];
+    if (!expected || !previous) return false;
+    const key = transitionKey(previous, candidate);
+    const count = (transitions.get(key) ?? 0) + 1;
+    const keyExpected = expected.get(key) ?? 0;
+    if (count > keyExpected + transitionTolerance(keyExpected)) return true;
+
+    // Every transition still short of its minimum needs one of the remaining slots
+    const remainingSlots = trials.length - sequence.length - 1;
+    let shortfall = 0;
+    for (const [otherKey, otherExpected] of expected) {
+      const otherCount = otherKey === key ? count : transitions.get(otherKey) ?? 0;
+      const minimum = Math.ceil(otherExpected - transitionTolerance(otherExpected));
+      shortfall += Math.max(0, minimum - otherCount);
+    }
+    return shortfall > remainingSlots;
+  }
+
+  function extend(): boolean {
+    if (sequence.length === trials.length) return true;
+    if (++steps > MAX_STEPS_PER_ATTEMPT) return false;
+
+    const stimuli = shuffle(
+      [...groups.keys()].filter((stimulus) => groups.get(stimulus)!.length > 0),
+      random
+    );
+    const previous = sequence[sequence.length - 1];
+    if (expected && previous) {
+      // Try the transitions furthest behind their expected pace first
+      const progress = sequence.length / (trials.length - 1);
+      const lag = (stimulus: string) => {
+        const key = transitionKey(previous, groups.get(stimulus)![0]);
+        return (expected.get(key) ?? 0) * progress - (transitions.get(key) ?? 0);
+      };
+      stimuli.sort((a, b) => lag(b) - lag(a));
+    }
+    for (const stimulus of stimuli) {
+      const group = groups.get(stimulus)!;
+      const candidate = group[group.length - 1];
+      if (violatesLocalRules(sequence, candidate, constraints)) continue;
+      if (exhaustsRunCapacity(candidate)) continue;
+      if (exceedsTransitionBudget(candidate)) continue;
+
+      const condition = candidate.condition;
+      const key = previous ? transitionKey(previous, candidate) : null;
+      if (key) transitions.set(key, (transitions.get(key) ?? 0) + 1);
+      remainingByCondition.set(condition, remainingByCondition.get(condition)! - 1);
+      sequence.push(group.pop()!);
+
+      if (extend()) return true;
+
+      group.push(sequence.pop()!);
+      remainingByCondition.set(condition, remainingByCondition.get(condition)! + 1);
+      if (key) transitions.set(key, transitions.get(key)! - 1);
+      if (steps > MAX_STEPS_PER_ATTEMPT) return false;
+    }
+    return false;
+  }
+
+  if (!extend()) return null;
+
+  if (expected) {
+    for (const [key, count] of expected) {
+      if (Math.abs((transitions.get(key) ?? 0) - count) > transitionTolerance(count)) return null;
+    }
+  }
+  return sequence;
+}
+
+/**
+ * Order trials so every constraint holds. Throws a SequenceConstraintError
+ * when the rules cannot be met for this pool of trials.
+ */
+export function sequenceTrials<T extends Trial>(
+  trials: T[],
+  constraints: SequenceConstraints,
+  random: RandomSource = Math.random
+): T[] {
+  if (trials.length < 2) return [...trials];
+
+  if (constraints.maxConditionRun !== undefined) {
+    if (constraints.maxConditionRun < 1) {
+      throw new SequenceConstraintError('maxConditionRun must be at least 1');
+    }
+    assertRunLengthFeasible(trials, constraints.maxConditionRun);
+  }
+
+  const expected = constraints.balanceTransitions ? expectedTransitions(trials) : null;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const sequence = attemptSequence(trials, constraints, expected, random);
+    if (sequence) return sequence as T[];
+  }
+
+  throw new SequenceConstraintError(
+    `Cannot sequence ${trials.length} trials with constraints ` +
+      `(${describeConstraints(constraints)}) after ${MAX_ATTEMPTS} attempts`
+  );
+}
@@ -0,0 +1,173 @@
+import {
+  ColorScreeningResult,
+  DeviceInfo,
+  DisplayCalibration,
+  ExperimentProtocol,
+  ExperimentState,
+  ResponseLayout,
+  SessionRecord,
+  TimingReport,
+  TrialResult,
+} from '@/types';
+import { getScoredResults, hasExcessFocusLoss, isFocusLost } from '@/lib/analysis';
+import { assignResponseMapping, getProtocol, getResponseMapping } from '@/lib/protocols';
+import { seedFromString } from '@/lib/random';
+import { isExcludedByScreening } from '@/lib/screening';
+import { assessTimingReport } from '@/lib/timing';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Trial order seed for a session. Derived from the session id so the
+ * sequence can be rebuilt even if the session row is lost.
+ */
+export function getSessionSeed(sessionId: string): number {
+  return seedFromString(sessionId);
+}
+
+/**
+ * Seed that picks the participant's counterbalanced key mapping. Kept apart
+ * from the trial order seed so the two are assigned independently.
+ */
+export function getKeyAssignmentSeed(sessionId: string): number {
+  return seedFromString(`${sessionId}:keys`);
+}
+
+/**
+ * The protocol with this session's counterbalanced response keys
+ */
+export function getSessionProtocol(
+  protocolId: string | null,
+  sessionId: string
+): ExperimentProtocol {
+  return assignResponseMapping(getProtocol(protocolId), getKeyAssignmentSeed(sessionId));
+}
+
+// Results of the checks run before the session, kept in sessionStorage
+// until the session record is created
+export interface SetupResults {
+  timingReport: TimingReport | null;
+  colorScreening: ColorScreeningResult | null;
+  displayCalibration: DisplayCalibration | null;
+}
+
+function loadStored<T>(key: string): T | null {
+  const stored = sessionStorage.getItem(key);
+  return stored ? (JSON.parse(stored) as T) : null;
+}
+
+export function loadSetupResults(): SetupResults {
+  return {
+    timingReport: loadStored<TimingReport>('stroop_timing_report'),
+    colorScreening: loadStored<ColorScreeningResult>('stroop_color_screening'),
+    displayCalibration: loadStored<DisplayCalibration>('stroop_display_calibration'),
+  };
+}
+
+export function clearSetupResults() {
+  sessionStorage.removeItem('stroop_timing_report');
+  sessionStorage.removeItem('stroop_color_screening');
+  sessionStorage.removeItem('stroop_display_calibration');
+}
+
+/**
+ * Next check the protocol needs before its session can start, or null when
+ * it is ready. A failed timing check only holds the session back when the
+ * protocol blocks on failure.
+ */
+export function getPendingSetupStep(
+  protocol: ExperimentProtocol,
+  { timingReport, colorScreening, displayCalibration }: SetupResults
+): '/calibration' | '/screen-calibration' | '/screening' | null {
+  const requirements = protocol.timingRequirements;
+  if (
+    requirements &&
+    (!timingReport ||
+      (requirements.blockOnFailure && assessTimingReport(timingReport, requirements).length > 0))
+  ) {
+    return '/calibration';
+  }
+  if (protocol.stimulusHeight !== undefined && !displayCalibration) return '/screen-calibration';
+  if (protocol.colorScreening && !colorScreening) return '/screening';
+  return null;
+}
+
+export function saveExperimentState(state: ExperimentState) {
+  sessionStorage.setItem('stroop_experiment_state', JSON.stringify(state));
+}
+
+/**
+ * Saved progress of the given session, if any
+ */
+export function loadExperimentState(sessionId: string): ExperimentState | null {
+  const state = loadStored<ExperimentState>('stroop_experiment_state');
+  return state?.sessionId === sessionId ? state : null;
+}
+
+// What the browser reported about the participant's setup
+interface SessionEnvironment extends Partial<SetupResults> {
+  device?: DeviceInfo;
+  responseLayout?: ResponseLayout;
+}
+
+export function createSessionRecord(
+  sessionId: string,
+  protocol: ExperimentProtocol,
+  {
+    timingReport = null,
+    colorScreening = null,
+    displayCalibration = null,
+    device,
+    responseLayout,
+  }: SessionEnvironment = {}
+): SessionRecord {
+  return {
+    session_id: sessionId,
+    protocol_id: protocol.id,
+    seed: getSessionSeed(sessionId),
+    timing_report: timingReport,
+    color_screening: colorScreening,
+    display_calibration: displayCalibration,
+    excluded: isExcludedByScreening(protocol, colorScreening),
+    response_mapping: getResponseMapping(protocol),
+    response_layout: responseLayout,
+    device,
+  };
+}
+
+export function saveSessionRecord(record: SessionRecord) {
+  // Save to Supabase (non-blocking)
+  supabase.from('stroop_sessions').upsert(record).then(({ error }) => {
+    if (error) {
+      console.error('Failed to save session:', error);
+    }
+  });
+}
+
+/**
+ * Update fields of a session that change while it runs (non-blocking)
+ */
+export function updateSessionRecord(sessionId: string, changes: Partial<SessionRecord>) {
+  supabase
+    .from('stroop_sessions')
+    .update(changes)
+    .eq('session_id', sessionId)
+    .then(({ error }) => {
+      if (error) {
+        console.error('Failed to update session:', error);
+      }
+    });
+}
+
+/**
+ * Flags that are only known once the session has ended
+ */
+export function saveSessionOutcome(
+  sessionId: string,
+  protocol: ExperimentProtocol,
+  results: TrialResult[]
+) {
+  updateSessionRecord(sessionId, {
+    focus_loss_trials: getScoredResults(results).filter(isFocusLost).length,
+    inattentive: hasExcessFocusLoss(protocol, results),
+  });
+}
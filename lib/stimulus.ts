@@ -0,0 +1,155 @@
+/**
+ * How the stimulus word is drawn: font, letter case, outline, background,
+ * position, how long it stays up before a mask replaces it, and in SOA
+ * mode when the color patch and the word each appear. Position offsets are
+ * drawn per trial when the sequence is generated, so they are reproducible
+ * from the session seed.
+ */
+
+import {
+  COLORS,
+  ExperimentProtocol,
+  LetterCase,
+  StimulusOnset,
+  StimulusRendering,
+  Trial,
+} from '@/types';
+import { RandomSource } from '@/lib/random';
+import { ExposureFrames, getFrameCount, getFrameDuration } from '@/lib/timing';
+
+const DEFAULT_FONT_WEIGHT = 700;
+const DEFAULT_LETTER_CASE: LetterCase = 'upper';
+const MASK_CHARACTERS = ['#', '%', '&', '@'];
+const DEFAULT_SOA_WORD_COLOR = '#d4d4d8';
+
+export interface ComponentDelay {
+  component: 'word' | 'patch'; // the one that appears second
+  frames: number; // refreshes after the other
+}
+
+export interface MaskCharacter {
+  character: string;
+  color: string; // hex
+}
+
+export function formatStimulusText(word: string, letterCase: LetterCase): string {
+  switch (letterCase) {
+    case 'upper':
+      return word.toUpperCase();
+    case 'lower':
+      return word.toLowerCase();
+    case 'title':
+      return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+    case 'as-written':
+      return word;
+  }
+}
+
+/**
+ * Font of the stimulus word; a null family means the app's sans
+ */
+export function getStimulusFont(protocol: ExperimentProtocol): {
+  family: string | null;
+  weight: number;
+} {
+  return {
+    family: protocol.stimulusStyle?.fontFamily ?? null,
+    weight: protocol.stimulusStyle?.fontWeight ?? DEFAULT_FONT_WEIGHT,
+  };
+}
+
+/**
+ * Offset of the word's centre from the middle of the stimulus area, uniform
+ * within the protocol's jitter region; no offset without one
+ */
+export function sampleStimulusOffset(
+  protocol: ExperimentProtocol,
+  random: RandomSource = Math.random
+): { x: number; y: number } {
+  const jitter = protocol.stimulusStyle?.positionJitter;
+  if (!jitter) return { x: 0, y: 0 };
+  return {
+    x: Math.round((random() - 0.5) * jitter.width),
+    y: Math.round((random() - 0.5) * jitter.height),
+  };
+}
+
+/**
+ * Parameters a trial's word is drawn with, stored with its result
+ */
+export function getStimulusRendering(
+  protocol: ExperimentProtocol,
+  trial: Trial
+): StimulusRendering {
+  const style = protocol.stimulusStyle ?? {};
+  const font = getStimulusFont(protocol);
+  const letterCase = style.letterCase ?? DEFAULT_LETTER_CASE;
+  return {
+    text: formatStimulusText(trial.wordText, letterCase),
+    letter_case: letterCase,
+    font_family: font.family,
+    font_weight: font.weight,
+    // In SOA mode the color comes from the patch, so the word is neutral
+    ink: protocol.soa ? (protocol.soa.wordColor ?? DEFAULT_SOA_WORD_COLOR) : trial.fontColor,
+    patch: protocol.soa ? trial.fontColor : null,
+    background: style.background ?? null,
+    outline: style.outline ?? null,
+    offset_x: trial.offsetX,
+    offset_y: trial.offsetY,
+  };
+}
+
+/**
+ * Refreshes the word and its mask stay up under limited exposure, at the
+ * refresh rate measured on /calibration; null when the word stays up
+ */
+export function getExposureFrames(
+  protocol: ExperimentProtocol,
+  frameDuration = getFrameDuration()
+): ExposureFrames | null {
+  const { exposure } = protocol;
+  if (!exposure) return null;
+  return {
+    frames: getFrameCount(exposure.duration, frameDuration),
+    maskFrames:
+      exposure.mask === 'pattern' && exposure.maskDuration !== undefined
+        ? getFrameCount(exposure.maskDuration, frameDuration)
+        : null,
+  };
+}
+
+/**
+ * Pattern mask for a trial: symbols two longer than the word, in the
+ * stimulus colors so both the word and its ink are masked. The colors are
+ * rotated per trial so no mask cues the next response.
+ */
+export function getMaskPattern(protocol: ExperimentProtocol, trial: Trial): MaskCharacter[] {
+  const { stimulusSet } = protocol;
+  return Array.from({ length: trial.wordText.length + 2 }, (_, i) => ({
+    character: MASK_CHARACTERS[i % MASK_CHARACTERS.length],
+    color: COLORS[stimulusSet[(i + trial.id) % stimulusSet.length]].hex,
+  }));
+}
+
+/**
+ * Part of an SOA trial that appears after the other, and how many
+ * refreshes later; null when both appear together
+ */
+export function getDelayedComponent(
+  trial: Trial,
+  frameDuration = getFrameDuration()
+): ComponentDelay | null {
+  if (trial.soa === 0) return null;
+  return {
+    component: trial.soa > 0 ? 'word' : 'patch',
+    frames: getFrameCount(Math.abs(trial.soa), frameDuration),
+  };
+}
+
+/**
+ * Measured color-to-word asynchrony of an SOA trial, from its onset report
+ */
+export function getAchievedSoa(trial: Trial, onset: StimulusOnset): number {
+  const delay = onset.componentDelay ?? 0;
+  return trial.soa < 0 ? -delay : delay;
+}
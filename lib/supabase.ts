@@ -31,6 +31,10 @@ export const supabase = {
       const notConfiguredError = { error: new Error('Supabase not configured') };
       return {
         insert: () => Promise.resolve(notConfiguredError),
+        upsert: () => Promise.resolve(notConfiguredError),
+        update: () => ({
+          eq: () => Promise.resolve(notConfiguredError),
+        }),
         select: () => Promise.resolve({ data: [], error: new Error('Supabase not configured') }),
         delete: () => ({
           eq: () => Promise.resolve(notConfiguredError),
@@ -0,0 +1,88 @@
+/**
+ * Trial timeline: inter-trial interval, fixation and pre-stimulus blank
+ * Jittered intervals are drawn per trial when the sequence is generated,
+ * so they are reproducible from the session seed like the trial order.
+ */
+
+import { ExperimentProtocol, IntervalDistribution, TrialTimelineConfig } from '@/types';
+import { RandomSource } from '@/lib/random';
+
+export type TrialStage = 'fixation' | 'blank' | 'stimulus';
+
+/**
+ * Timeline of a protocol. Protocols without one go straight to the
+ * stimulus after a fixed interTrialDelay.
+ */
+export function getTimeline(protocol: ExperimentProtocol): TrialTimelineConfig {
+  return (
+    protocol.timeline ?? {
+      fixationDuration: 0,
+      blankDuration: 0,
+      interTrialInterval: { type: 'fixed', duration: protocol.interTrialDelay },
+    }
+  );
+}
+
+/**
+ * Stage a trial opens with, skipping stages with no duration
+ */
+export function getFirstStage(timeline: TrialTimelineConfig): TrialStage {
+  if (timeline.fixationDuration > 0) return 'fixation';
+  if (timeline.blankDuration > 0) return 'blank';
+  return 'stimulus';
+}
+
+/**
+ * Stage that follows a pre-stimulus stage, with how long the current one lasts
+ */
+export function getNextStage(
+  timeline: TrialTimelineConfig,
+  stage: Exclude<TrialStage, 'stimulus'>
+): { next: TrialStage; duration: number } {
+  return stage === 'fixation'
+    ? {
+        next: timeline.blankDuration > 0 ? 'blank' : 'stimulus',
+        duration: timeline.fixationDuration,
+      }
+    : { next: 'stimulus', duration: timeline.blankDuration };
+}
+
+/**
+ * Draw an interval in ms. Exponential intervals are truncated to
+ * [min, max] by inverse-CDF sampling, which keeps the flat hazard rate
+ * that makes onset hard to anticipate.
+ */
+export function sampleInterval(
+  distribution: IntervalDistribution,
+  random: RandomSource = Math.random
+): number {
+  switch (distribution.type) {
+    case 'fixed':
+      return distribution.duration;
+    case 'uniform':
+      return Math.round(distribution.min + random() * (distribution.max - distribution.min));
+    case 'exponential': {
+      const { min, max, mean } = distribution;
+      const tailMass = 1 - Math.exp(-(max - min) / mean);
+      return Math.round(min - mean * Math.log(1 - random() * tailMass));
+    }
+  }
+}
+
+/**
+ * Expected value of an interval in ms, for session length estimates
+ */
+export function expectedInterval(distribution: IntervalDistribution): number {
+  switch (distribution.type) {
+    case 'fixed':
+      return distribution.duration;
+    case 'uniform':
+      return (distribution.min + distribution.max) / 2;
+    case 'exponential': {
+      const { min, max, mean } = distribution;
+      const range = max - min;
+      const tail = Math.exp(-range / mean);
+      return min + mean - (range * tail) / (1 - tail);
+    }
+  }
+}
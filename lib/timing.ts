@@ -3,12 +3,20 @@
  * Provides millisecond-precision timing for reaction time measurements
  */
 
+import { StimulusOffset, StimulusOnset, TimingReport, TimingRequirements } from '@/types';
+
+const DEFAULT_REFRESH_RATE = 60; // Hz, when /calibration wasn't run
+
 export function getTimestamp(): number {
   return performance.now();
 }
 
-export function calculateReactionTime(startTime: number): number {
-  return performance.now() - startTime;
+/**
+ * RT from stimulus onset to the input event. Pass the event's timeStamp so
+ * handler and render latency are not counted; defaults to now.
+ */
+export function calculateReactionTime(startTime: number, endTime = performance.now()): number {
+  return endTime - startTime;
 }
 
 export function formatReactionTime(ms: number): string {
@@ -19,3 +27,245 @@ export function calculateAverage(times: number[]): number {
   if (times.length === 0) return 0;
   return times.reduce((sum, t) => sum + t, 0) / times.length;
 }
+
+export function calculateMedian(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+export function calculateStandardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = calculateAverage(values);
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Duration of one refresh at the rate measured on /calibration
+ */
+export function getFrameDuration(refreshRate?: number): number {
+  return 1000 / (refreshRate || DEFAULT_REFRESH_RATE);
+}
+
+export interface ExposureFrames {
+  frames: number; // refreshes the stimulus stays up
+  maskFrames: number | null; // refreshes the mask stays up after it; null leaves it up
+}
+
+export interface ExposureSchedule extends ExposureFrames {
+  onOffset: (offset: StimulusOffset) => void; // must remove the stimulus before returning
+  onMaskOffset?: () => void; // likewise for the mask
+}
+
+/**
+ * Number of refreshes closest to a duration, at least one
+ */
+export function getFrameCount(duration: number, frameDuration: number): number {
+  return Math.max(1, Math.round(duration / frameDuration));
+}
+
+export interface DelayedComponent {
+  frames: number; // refreshes after the first paint
+  show: () => void; // must reveal the component before returning
+  isOnset: boolean; // responses are timed from this component instead of the first paint
+}
+
+export interface FrameSchedule {
+  delayed?: DelayedComponent; // part of the stimulus shown after the rest (SOA)
+  exposure?: ExposureSchedule; // counted from the onset the responses are timed from
+}
+
+/**
+ * Watch an element from mount until the first animation frame in which it
+ * is painted at full opacity, and report that frame's timestamp. The onset
+ * is reported from the next frame, so a late onset frame counts as a drop:
+ * frameDrops covers every refresh missed from mount through the frame
+ * after onset. Drops and schedules are counted in refreshes of
+ * frameDuration ms.
+ * Scheduled changes are made inside the frame callback, so they are part
+ * of that frame's paint: a delayed component is shown a number of frames
+ * after the first paint (the onset is then the frame both are first up,
+ * reported from the frame after it), and an exposure takes the stimulus,
+ * and later its mask, down a number of frames after the onset.
+ * Returns a function that stops watching.
+ */
+export function watchPaintedOnset(
+  element: HTMLElement,
+  onOnset: (onset: StimulusOnset) => void,
+  frameDuration: number,
+  { delayed, exposure }: FrameSchedule = {}
+): () => void {
+  let frameId = 0;
+  let previousFrame: number | null = null;
+  let paintedAt: number | null = null;
+  let delayedAt: number | null = null;
+  let onsetTimestamp: number | null = null;
+  let offsetTimestamp: number | null = null;
+  let frameDrops = 0;
+
+  // Whole refreshes since a timestamp, by elapsed time so dropped frames count
+  const framesSince = (from: number, timestamp: number) =>
+    Math.round((timestamp - from) / frameDuration);
+
+  const onFrame = (timestamp: number) => {
+    if (previousFrame !== null && onsetTimestamp === null) {
+      frameDrops += Math.max(0, framesSince(previousFrame, timestamp) - 1);
+    }
+    previousFrame = timestamp;
+
+    if (onsetTimestamp === null) {
+      const readyAt = delayed ? delayedAt : paintedAt;
+      if (readyAt === null) {
+        if (paintedAt === null) {
+          // Opacity and scale share one transition, so full opacity means fully shown
+          if (getComputedStyle(element).opacity === '1') paintedAt = timestamp;
+        } else if (delayed && framesSince(paintedAt, timestamp) >= delayed.frames) {
+          delayedAt = timestamp;
+          delayed.show();
+        }
+        frameId = requestAnimationFrame(onFrame);
+        return;
+      }
+      // One frame after the onset frame, whose interval has now been counted
+      onsetTimestamp = delayed?.isOnset ? readyAt : paintedAt!;
+      onOnset({
+        timestamp: onsetTimestamp,
+        frameDrops,
+        ...(delayed && { componentDelay: readyAt - paintedAt! }),
+      });
+    }
+    if (!exposure) return;
+
+    if (offsetTimestamp === null) {
+      const frames = framesSince(onsetTimestamp, timestamp);
+      if (frames >= exposure.frames) {
+        offsetTimestamp = timestamp;
+        exposure.onOffset({ timestamp, frames, duration: timestamp - onsetTimestamp });
+      }
+    } else if (
+      exposure.maskFrames !== null &&
+      framesSince(offsetTimestamp, timestamp) >= exposure.maskFrames
+    ) {
+      exposure.onMaskOffset?.();
+      return;
+    }
+    if (offsetTimestamp === null || exposure.maskFrames !== null) {
+      frameId = requestAnimationFrame(onFrame);
+    }
+  };
+
+  frameId = requestAnimationFrame(onFrame);
+  return () => cancelAnimationFrame(frameId);
+}
+
+/**
+ * Intervals between consecutive animation frames, over frameCount frames
+ */
+export function measureFrameIntervals(frameCount: number): Promise<number[]> {
+  return new Promise((resolve) => {
+    const intervals: number[] = [];
+    let previousFrame: number | null = null;
+
+    const onFrame = (timestamp: number) => {
+      if (previousFrame !== null) intervals.push(timestamp - previousFrame);
+      previousFrame = timestamp;
+      if (intervals.length < frameCount) {
+        requestAnimationFrame(onFrame);
+      } else {
+        resolve(intervals);
+      }
+    };
+    requestAnimationFrame(onFrame);
+  });
+}
+
+/**
+ * Smallest step performance.now() advances by. Browsers coarsen the clock,
+ * from 5 µs up to 1 ms or more under fingerprinting protection.
+ */
+export function measureTimerResolution(samples = 50): number {
+  let smallest = Infinity;
+  let previous = performance.now();
+  for (let i = 0; i < samples; i++) {
+    let current = performance.now();
+    while (current === previous) current = performance.now();
+    smallest = Math.min(smallest, current - previous);
+    previous = current;
+  }
+  return smallest;
+}
+
+/**
+ * Delay between an input event's own timestamp and its handler running
+ */
+export function measureEventLatency(event: Event): number {
+  return performance.now() - event.timeStamp;
+}
+
+export function createTimingReport(
+  frameIntervals: number[],
+  timerResolution: number,
+  eventLatencies: number[]
+): TimingReport {
+  const medianInterval = calculateMedian(frameIntervals);
+  return {
+    refreshRate: medianInterval > 0 ? 1000 / medianInterval : 0,
+    frameJitter: calculateStandardDeviation(frameIntervals),
+    droppedFrameRate:
+      frameIntervals.filter((interval) => interval > medianInterval * 1.5).length /
+      Math.max(1, frameIntervals.length),
+    timerResolution,
+    eventLatency: calculateMedian(eventLatencies),
+    userAgent: typeof navigator === 'undefined' ? 'unknown' : navigator.userAgent,
+  };
+}
+
+/**
+ * Requirements the report fails, as messages for the participant.
+ * An empty list means timing is good enough.
+ */
+export function assessTimingReport(
+  report: TimingReport,
+  requirements: TimingRequirements
+): string[] {
+  const failures: string[] = [];
+  const {
+    minRefreshRate,
+    maxFrameJitter,
+    maxDroppedFrameRate,
+    maxTimerResolution,
+    maxEventLatency,
+  } = requirements;
+
+  if (minRefreshRate !== undefined && report.refreshRate < minRefreshRate) {
+    failures.push(
+      `Display refreshes at ${Math.round(report.refreshRate)} Hz (minimum ${minRefreshRate} Hz)`
+    );
+  }
+  if (maxFrameJitter !== undefined && report.frameJitter > maxFrameJitter) {
+    failures.push(
+      `Frame timing varies by ${report.frameJitter.toFixed(1)} ms (maximum ${maxFrameJitter} ms)`
+    );
+  }
+  if (maxDroppedFrameRate !== undefined && report.droppedFrameRate > maxDroppedFrameRate) {
+    failures.push(
+      `${Math.round(report.droppedFrameRate * 100)}% of frames were dropped ` +
+        `(maximum ${Math.round(maxDroppedFrameRate * 100)}%)`
+    );
+  }
+  if (maxTimerResolution !== undefined && report.timerResolution > maxTimerResolution) {
+    failures.push(
+      `Clock resolution is ${report.timerResolution.toFixed(2)} ms ` +
+        `(maximum ${maxTimerResolution} ms)`
+    );
+  }
+  if (maxEventLatency !== undefined && report.eventLatency > maxEventLatency) {
+    failures.push(
+      `Input events arrive ${report.eventLatency.toFixed(1)} ms late ` +
+        `(maximum ${maxEventLatency} ms)`
+    );
+  }
+  return failures;
+}
@@ -0,0 +1,68 @@
+/**
+ * Screen calibration for stimulus sizes in degrees of visual angle
+ * Pixels per mm come from matching an on-screen card to a real credit
+ * card; viewing distance is entered or estimated from the blind spot
+ * (the "virtual chinrest" method).
+ */
+
+import { DisplayCalibration, ExperimentProtocol } from '@/types';
+
+export const CREDIT_CARD_WIDTH_MM = 85.6; // ISO/IEC 7810 ID-1
+export const CREDIT_CARD_HEIGHT_MM = 53.98;
+
+// Horizontal eccentricity of the blind spot's centre from fixation
+export const BLIND_SPOT_ANGLE = 13.5;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+export function getPixelsPerMm(cardWidthPx: number): number {
+  return cardWidthPx / CREDIT_CARD_WIDTH_MM;
+}
+
+/**
+ * Viewing distance in mm from the distances (CSS px) between fixation and
+ * the moving dot at the moments it vanished into the blind spot
+ */
+export function estimateViewingDistance(blindSpotOffsets: number[], pixelsPerMm: number): number {
+  const meanOffset = blindSpotOffsets.reduce((sum, px) => sum + px, 0) / blindSpotOffsets.length;
+  return meanOffset / pixelsPerMm / Math.tan(toRadians(BLIND_SPOT_ANGLE));
+}
+
+/**
+ * CSS px spanning the given visual angle, centred on the line of sight
+ */
+export function degreesToPixels(degrees: number, calibration: DisplayCalibration): number {
+  const mm = 2 * calibration.viewingDistanceMm * Math.tan(toRadians(degrees) / 2);
+  return mm * calibration.pixelsPerMm;
+}
+
+export function pixelsToDegrees(pixels: number, calibration: DisplayCalibration): number {
+  const mm = pixels / calibration.pixelsPerMm;
+  return (2 * Math.atan(mm / 2 / calibration.viewingDistanceMm) * 180) / Math.PI;
+}
+
+/**
+ * Height of a capital letter as a share of the font size, measured from
+ * the font's own glyphs
+ */
+export function measureCapHeightRatio(fontFamily: string, fontWeight: string | number): number {
+  const context = document.createElement('canvas').getContext('2d');
+  if (!context) return 0.7;
+  context.font = `${fontWeight} 100px ${fontFamily}`;
+  return context.measureText('H').actualBoundingBoxAscent / 100;
+}
+
+/**
+ * Font size (CSS px) that makes the protocol's uppercase stimulus word the
+ * specified number of degrees tall, or undefined when it sets no size
+ */
+export function getStimulusFontSize(
+  protocol: ExperimentProtocol,
+  calibration: DisplayCalibration | null,
+  capHeightRatio: number
+): number | undefined {
+  if (protocol.stimulusHeight === undefined || !calibration) return undefined;
+  return degreesToPixels(protocol.stimulusHeight, calibration) / capHeightRatio;
+}
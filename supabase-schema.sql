@@ -8,17 +8,67 @@ CREATE TABLE stroop_results (
   word_text text NOT NULL,
   font_color text NOT NULL,
   is_congruent boolean NOT NULL,
+  condition text NOT NULL CHECK (condition IN ('congruent', 'incongruent', 'neutral')),
   reaction_time_ms float8 NOT NULL,
-  user_response text NOT NULL,
+  user_response text,
   is_correct boolean NOT NULL,
+  timed_out boolean NOT NULL DEFAULT false,
+  input_modality text CHECK (input_modality IN ('keyboard', 'mouse', 'touch', 'pen')),
+  phase text NOT NULL DEFAULT 'main' CHECK (phase IN ('practice', 'main')),
+  block_index integer NOT NULL DEFAULT 0,
+  trial_index integer,
+  congruency_proportion float8,
+  iti_duration_ms float8,
+  fixation_duration_ms float8,
+  blank_duration_ms float8,
+  stimulus_onset_ms float8,
+  onset_frame_drops integer,
+  anticipated boolean NOT NULL DEFAULT false,
+  responses jsonb, -- every press in the trial: response, rt_ms, modality, stage, flags
+  interrupted boolean NOT NULL DEFAULT false, -- cut off by a reload or fullscreen exit; rerun unless answered
+  focus_lost boolean NOT NULL DEFAULT false, -- page hidden, blurred or out of fullscreen
+  focus_lost_ms float8, -- total time away during the trial
+  exposure_frames integer, -- refreshes the word was shown for, under limited exposure
+  exposure_ms float8, -- onset to the first frame without the word; null if answered sooner
+  soa_ms integer, -- intended word onset minus color onset, in SOA mode
+  achieved_soa_ms float8, -- the same, measured from the painted frames
+  stimulus_rendering jsonb, -- text, font, background, outline and position offset as drawn
   created_at timestamptz DEFAULT now()
 );
 
 -- Create index for faster session queries
 CREATE INDEX idx_stroop_results_session_id ON stroop_results(session_id);
 
+-- Create the stroop_sessions table (one row per session, used to
+-- reconstruct the exact trial order a participant saw)
+CREATE TABLE stroop_sessions (
+  session_id uuid PRIMARY KEY,
+  protocol_id text NOT NULL,
+  seed bigint NOT NULL,
+  timing_report jsonb, -- browser timing measured on /calibration, when run
+  response_mapping jsonb, -- [{color, key}] in button order, as assigned to the participant
+  response_layout text CHECK (response_layout IN ('buttons', 'touch')),
+  device jsonb, -- primary pointer, touch points and screen size at session start
+  color_screening jsonb, -- odd-one-out color check from /screening, when run
+  excluded boolean NOT NULL DEFAULT false, -- e.g. failed color screening
+  focus_loss_trials integer, -- main trials with a focus loss, set when the session ends
+  inattentive boolean NOT NULL DEFAULT false, -- more focus-loss trials than the protocol allows
+  fullscreen_exits jsonb, -- [{timestamp, phase, trialIndex, status}] when fullscreen is required
+  block_displays jsonb, -- window and screen size (CSS px) and pixel ratio as each block started
+  display_calibration jsonb, -- pixels per mm and viewing distance, for sizes in visual angle
+  created_at timestamptz DEFAULT now()
+);
+
+-- Main-phase trials of every session that is not excluded
+CREATE VIEW stroop_analysis_results AS
+  SELECT r.*
+  FROM stroop_results r
+  JOIN stroop_sessions s ON s.session_id = r.session_id
+  WHERE NOT s.excluded AND r.phase = 'main';
+
 -- Enable Row Level Security
 ALTER TABLE stroop_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stroop_sessions ENABLE ROW LEVEL SECURITY;
 
 -- Allow anonymous inserts (for recording experiment results)
 CREATE POLICY "Allow anonymous inserts" ON stroop_results
@@ -31,3 +81,17 @@ CREATE POLICY "Allow anonymous selects" ON stroop_results
 -- Allow anonymous deletes (for clearing session results)
 CREATE POLICY "Allow anonymous deletes" ON stroop_results
   FOR DELETE TO anon USING (true);
+
+
+-- Session policies (upserts need insert + update)
+CREATE POLICY "Allow anonymous inserts" ON stroop_sessions
+  FOR INSERT TO anon WITH CHECK (true);
+
+CREATE POLICY "Allow anonymous updates" ON stroop_sessions
+  FOR UPDATE TO anon USING (true);
+
+CREATE POLICY "Allow anonymous selects" ON stroop_sessions
+  FOR SELECT TO anon USING (true);
+
+CREATE POLICY "Allow anonymous deletes" ON stroop_sessions
+  FOR DELETE TO anon USING (true);
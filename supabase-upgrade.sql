@@ -0,0 +1,91 @@
+-- Stroop Lab Database Upgrade
+-- Run this in your Supabase SQL Editor to bring a database created from the
+-- original single-table schema up to supabase-schema.sql. Existing results
+-- are kept. New databases should run supabase-schema.sql instead.
+
+-- Trial results: new columns, with existing rows filled in where required
+ALTER TABLE stroop_results
+  ADD COLUMN IF NOT EXISTS condition text,
+  ADD COLUMN IF NOT EXISTS timed_out boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS input_modality text
+    CHECK (input_modality IN ('keyboard', 'mouse', 'touch', 'pen')),
+  ADD COLUMN IF NOT EXISTS phase text NOT NULL DEFAULT 'main'
+    CHECK (phase IN ('practice', 'main')),
+  ADD COLUMN IF NOT EXISTS block_index integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS trial_index integer,
+  ADD COLUMN IF NOT EXISTS congruency_proportion float8,
+  ADD COLUMN IF NOT EXISTS iti_duration_ms float8,
+  ADD COLUMN IF NOT EXISTS fixation_duration_ms float8,
+  ADD COLUMN IF NOT EXISTS blank_duration_ms float8,
+  ADD COLUMN IF NOT EXISTS stimulus_onset_ms float8,
+  ADD COLUMN IF NOT EXISTS onset_frame_drops integer,
+  ADD COLUMN IF NOT EXISTS anticipated boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS responses jsonb,
+  ADD COLUMN IF NOT EXISTS interrupted boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS focus_lost boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS focus_lost_ms float8,
+  ADD COLUMN IF NOT EXISTS exposure_frames integer,
+  ADD COLUMN IF NOT EXISTS exposure_ms float8,
+  ADD COLUMN IF NOT EXISTS soa_ms integer,
+  ADD COLUMN IF NOT EXISTS achieved_soa_ms float8,
+  ADD COLUMN IF NOT EXISTS stimulus_rendering jsonb;
+
+-- Earlier sessions had no neutral trials
+UPDATE stroop_results
+  SET condition = CASE WHEN is_congruent THEN 'congruent' ELSE 'incongruent' END
+  WHERE condition IS NULL;
+ALTER TABLE stroop_results
+  ALTER COLUMN condition SET NOT NULL,
+  ADD CONSTRAINT stroop_results_condition_check
+    CHECK (condition IN ('congruent', 'incongruent', 'neutral'));
+
+-- A miss has no response
+ALTER TABLE stroop_results ALTER COLUMN user_response DROP NOT NULL;
+
+-- Sessions, and the analysis view that joins them
+CREATE TABLE IF NOT EXISTS stroop_sessions (
+  session_id uuid PRIMARY KEY,
+  protocol_id text NOT NULL,
+  seed bigint NOT NULL,
+  timing_report jsonb,
+  response_mapping jsonb,
+  response_layout text CHECK (response_layout IN ('buttons', 'touch')),
+  device jsonb,
+  color_screening jsonb,
+  excluded boolean NOT NULL DEFAULT false,
+  focus_loss_trials integer,
+  inattentive boolean NOT NULL DEFAULT false,
+  fullscreen_exits jsonb,
+  block_displays jsonb,
+  display_calibration jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Results recorded before the upgrade have no session row; give them one
+-- on the classic protocol so the analysis view keeps them. Their seed is
+-- unknown, so their trial order can't be reconstructed.
+INSERT INTO stroop_sessions (session_id, protocol_id, seed, created_at)
+  SELECT session_id, 'classic', 0, min(created_at)
+  FROM stroop_results
+  GROUP BY session_id
+  ON CONFLICT (session_id) DO NOTHING;
+
+CREATE OR REPLACE VIEW stroop_analysis_results AS
+  SELECT r.*
+  FROM stroop_results r
+  JOIN stroop_sessions s ON s.session_id = r.session_id
+  WHERE NOT s.excluded AND r.phase = 'main';
+
+ALTER TABLE stroop_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow anonymous inserts" ON stroop_sessions
+  FOR INSERT TO anon WITH CHECK (true);
+
+CREATE POLICY "Allow anonymous updates" ON stroop_sessions
+  FOR UPDATE TO anon USING (true);
+
+CREATE POLICY "Allow anonymous selects" ON stroop_sessions
+  FOR SELECT TO anon USING (true);
+
+CREATE POLICY "Allow anonymous deletes" ON stroop_sessions
+  FOR DELETE TO anon USING (true);
@@ -1,4 +1,8 @@
 import { test, expect } from '@playwright/test';
+import { generateTrials, generatePracticeTrials } from '@/lib/experiment';
+import { getProtocol, getResponseMapping } from '@/lib/protocols';
+import { getSessionSeed } from '@/lib/session';
+import { injectSession } from './utils/test-helpers';
 
 test.describe('Experiment Flow', () => {
   test.beforeEach(async ({ page }) => {
@@ -33,7 +37,7 @@ test.describe('Experiment Flow', () => {
     await expect(page.locator('button:has-text("R")').first()).toBeVisible();
 
     // Should show a color word (one of red, green, yellow)
-    const wordElement = page.locator('span.uppercase').first();
+    const wordElement = page.getByTestId('stimulus-word').first();
     await expect(wordElement).toBeVisible();
     const wordText = await wordElement.textContent();
     expect(['RED', 'GREEN', 'YELLOW']).toContain(wordText?.toUpperCase());
@@ -107,6 +111,254 @@ test.describe('Experiment Flow', () => {
     // Should navigate to results page
     await expect(page).toHaveURL('/results', { timeout: 5000 });
     await expect(page.locator('h1')).toContainText('Your Results');
+
+    // Every RT is measured from a painted onset to the key event
+    const stored = await page.evaluate(() =>
+      JSON.parse(sessionStorage.getItem('stroop_results')!)
+    );
+    for (const result of stored) {
+      expect(typeof result.stimulus_onset_ms).toBe('number');
+      expect(result.onset_frame_drops).toBeGreaterThanOrEqual(0);
+      expect(result.reaction_time_ms).toBeGreaterThan(0);
+      expect(result.input_modality).toBe('keyboard');
+      expect(result.responses.filter((r: { accepted: boolean }) => r.accepted)).toHaveLength(1);
+    }
+  });
+
+  test('a reload resumes the session where it stopped', async ({ page }) => {
+    await page.click('text=Start Experiment');
+    for (let i = 1; i <= 3; i++) {
+      await expect(page.locator(`text=Trial ${i} of 20`)).toBeVisible({ timeout: 3000 });
+      await page.getByTestId('stimulus-word').waitFor();
+      await page.keyboard.press('r');
+    }
+    await expect(page.locator('text=Trial 4 of 20')).toBeVisible({ timeout: 3000 });
+    const before = await page.evaluate(() =>
+      JSON.parse(sessionStorage.getItem('stroop_experiment_state')!)
+    );
+
+    await page.reload();
+    await expect(page.locator('text=Welcome back')).toBeVisible();
+    await page.keyboard.press('Space');
+    await expect(page.locator('text=Trial 4 of 20')).toBeVisible();
+    await page.getByTestId('stimulus-word').waitFor();
+    await page.keyboard.press('g');
+    await expect(page.locator('text=Trial 5 of 20')).toBeVisible({ timeout: 3000 });
+
+    const after = await page.evaluate(() =>
+      JSON.parse(sessionStorage.getItem('stroop_experiment_state')!)
+    );
+    expect(after.trials).toEqual(before.trials);
+    expect(after.results).toHaveLength(4);
+    expect(after.results.map((r: { interrupted: boolean }) => r.interrupted)).toEqual([
+      false,
+      false,
+      false,
+      true,
+    ]);
+
+    // A link to another protocol doesn't replace the session under way
+    const sessionId = await page.evaluate(() => sessionStorage.getItem('stroop_session_id'));
+    await page.goto('/experiment?protocol=extended');
+    await expect(page.locator('text=Welcome back')).toBeVisible();
+    await page.keyboard.press('Space');
+    await expect(page.locator('text=Trial 5 of 20')).toBeVisible();
+    expect(await page.evaluate(() => sessionStorage.getItem('stroop_session_id'))).toBe(sessionId);
+  });
+
+  test('protocol can be selected from the URL', async ({ page }) => {
+    await page.goto('/?protocol=extended');
+    await expect(page.locator('text=60 trials')).toBeVisible();
+
+    await page.click('button:has-text("Start Experiment")');
+    await expect(page).toHaveURL('/experiment');
+    // The extended protocol opens with its practice block
+    await expect(page.locator('text=Practice 1 of 6')).toBeVisible();
+  });
+
+  test('practice block gives feedback and hands over to the main trials', async ({ page }) => {
+    test.setTimeout(60000);
+    const sessionId = '3f9c7d21-8a4e-4b6f-a1d2-7e5b9c0f4a83';
+    const protocol = getProtocol('extended');
+    const practice = generatePracticeTrials(protocol, getSessionSeed(sessionId));
+    const keyFor = (color: string) =>
+      getResponseMapping(protocol).find((m) => m.color === color)!.key;
+
+    await page.evaluate((id) => {
+      sessionStorage.setItem('stroop_session_id', id);
+      sessionStorage.setItem('stroop_protocol_id', 'extended');
+    }, sessionId);
+    await page.goto('/experiment');
+
+    for (let i = 0; i < practice.length; i++) {
+      await expect(page.locator(`text=Practice ${i + 1} of ${practice.length}`)).toBeVisible({
+        timeout: 3000,
+      });
+      // Respond once the stimulus replaces the fixation cross
+      await expect(page.getByTestId('stimulus-word')).toBeVisible({ timeout: 2000 });
+      await page.keyboard.press(keyFor(practice[i].colorName));
+      await expect(page.locator('text="Correct"')).toBeVisible({ timeout: 1000 });
+    }
+
+    await expect(page.locator('text=Practice complete')).toBeVisible({ timeout: 3000 });
+    await page.keyboard.press('Space');
+    await expect(page.locator('text=Trial 1 of 60')).toBeVisible({ timeout: 2000 });
+  });
+
+  test('a fixation cross precedes each stimulus', async ({ page }) => {
+    await page.goto('/?protocol=extended');
+    await page.click('button:has-text("Start Experiment")');
+
+    const fixation = page.locator('[aria-label="Fixation cross"]');
+    const word = page.getByTestId('stimulus-word');
+    await expect(fixation).toBeVisible();
+    await expect(word).toHaveCount(0);
+    await expect(word).toBeVisible({ timeout: 2000 });
+    await expect(fixation).toHaveCount(0);
+  });
+
+  test('a trial without a response times out as a miss', async ({ page }) => {
+    await injectSession(page, 'blocked');
+    await page.goto('/experiment');
+    await page.click('button:has-text("Enter Fullscreen")');
+    await expect(page.locator('text=Trial 1 of 120')).toBeVisible();
+
+    // The 2s deadline passes without a key press
+    await expect(page.locator('text=Too slow')).toBeVisible({ timeout: 4000 });
+    await expect(page.locator('text=Trial 2 of 120')).toBeVisible({ timeout: 3000 });
+  });
+
+  test('a brief exposure is masked and the response is still taken', async ({ page }) => {
+    await injectSession(page, 'brief-exposure');
+    await page.goto('/experiment');
+    await expect(page.locator('text=Trial 1 of 48')).toBeVisible();
+
+    const word = page.getByTestId('stimulus-word');
+    const mask = page.locator('span[aria-hidden="true"]:has-text("#%&@")');
+    await word.waitFor({ state: 'attached', timeout: 2000 });
+    await expect(word).toBeHidden();
+    await expect(mask).toBeHidden();
+    await page.keyboard.press('r');
+    await expect(page.locator('text=Trial 2 of 48')).toBeVisible({ timeout: 2000 });
+
+    const results = await page.evaluate(
+      () => JSON.parse(sessionStorage.getItem('stroop_experiment_state')!).results
+    );
+    expect(results[0].exposure_frames).toBeGreaterThanOrEqual(6);
+    expect(results[0].exposure_ms).toBeGreaterThan(90);
+  });
+
+  test('protocols with timing requirements start with the timing check', async ({ page }) => {
+    await page.goto('/?protocol=blocked');
+    await page.click('button:has-text("Start Experiment")');
+    await expect(page).toHaveURL('/calibration');
+
+    // Display and clock are measured first, then input latency from key presses
+    await expect(page.locator('text=Press the')).toBeVisible({ timeout: 5000 });
+    for (let i = 0; i < 5; i++) await page.keyboard.press('Space');
+    await expect(page.locator('text=Refresh rate')).toBeVisible();
+    await expect(page.locator('text=Input latency')).toBeVisible();
+  });
+
+  test('a failing timing report keeps the session from starting', async ({ page }) => {
+    await injectSession(page, 'blocked', {
+      refreshRate: 30,
+    });
+    await page.goto('/experiment');
+    await expect(page).toHaveURL('/calibration');
+  });
+
+  test('counterbalanced keys are shown before the first trial', async ({ page }) => {
+    await page.goto('/?protocol=counterbalanced');
+    await expect(page.locator('text=Response keys')).toBeVisible();
+    await page.click('button:has-text("Start Experiment")');
+
+    await expect(page.locator('text=Your response keys')).toBeVisible();
+    const keys = await page.locator('kbd').allTextContents();
+    expect(keys).toEqual(['D', 'F', 'J', 'K']);
+    await page.keyboard.press('Space');
+
+    await expect(page.getByTestId('stimulus-word')).toBeVisible();
+    for (const label of ['D', 'F', 'J', 'K']) {
+      await expect(page.locator(`button:text-is("${label}")`)).toBeVisible();
+    }
+    await page.keyboard.press('j');
+    await expect(page.locator('text=Trial 2 of 48')).toBeVisible({ timeout: 2000 });
+  });
+
+  test('color screening runs before the session and is stored for the results', async ({
+    page,
+  }) => {
+    await injectSession(page, 'blocked', {}, null);
+    await page.goto('/experiment');
+    await expect(page).toHaveURL('/screening');
+    await page.click('button:has-text("Start Color Check")');
+
+    // Answer every item by picking the circle whose color differs
+    for (let i = 0; i < 6; i++) {
+      await expect(page.locator(`text=Check ${i + 1} of 6`)).toBeVisible();
+      const circles = page.locator('button[aria-label^="Circle"]');
+      const colors = await circles.evaluateAll((buttons) =>
+        buttons.map((b) => (b as HTMLElement).style.backgroundColor)
+      );
+      const odd = colors.findIndex((c) => colors.filter((other) => other === c).length === 1);
+      await circles.nth(odd).click();
+    }
+
+    await expect(page).toHaveURL('/experiment');
+    const screening = await page.evaluate(() =>
+      JSON.parse(sessionStorage.getItem('stroop_color_screening')!)
+    );
+    expect(screening.passed).toBe(true);
+    expect(screening.accuracy).toBe(1);
+  });
+
+  test('screen calibration sets the stimulus size in visual angle', async ({ page }) => {
+    await injectSession(page, 'blocked');
+    await page.evaluate(() => sessionStorage.removeItem('stroop_display_calibration'));
+    await page.goto('/experiment');
+    await expect(page).toHaveURL('/screen-calibration');
+
+    await page.click('button:has-text("The Box Matches")');
+    await page.fill('input[aria-label="Viewing distance in cm"]', '60');
+    await page.click('button:has-text("Use This Distance")');
+
+    await expect(page).toHaveURL('/experiment');
+    const calibration = await page.evaluate(() =>
+      JSON.parse(sessionStorage.getItem('stroop_display_calibration')!)
+    );
+    expect(calibration.viewingDistanceMm).toBe(600);
+    expect(calibration.distanceSource).toBe('entered');
+  });
+
+  test('larger color sets derive keys and buttons from the palette', async ({ page }) => {
+    await page.goto('/?protocol=five-color');
+    await expect(page.locator('kbd:has-text("B")')).toBeVisible();
+    await expect(page.locator('kbd:has-text("P")')).toBeVisible();
+
+    await page.click('button:has-text("Start Experiment")');
+    await expect(page.locator('text=Trial 1 of 60')).toBeVisible();
+    for (const label of ['R', 'G', 'Y', 'B', 'P']) {
+      await expect(page.locator(`button:text-is("${label}")`)).toBeVisible();
+    }
+
+    await page.keyboard.press('b');
+    await expect(page.locator('text=Trial 2 of 60')).toBeVisible({ timeout: 2000 });
+  });
+
+  test('trial order is reproducible from the session id', async ({ page }) => {
+    const sessionId = '0b6f2a8e-4c1d-4f3a-9e7b-5d2c1a0f8e6d';
+    const expected = generateTrials(getProtocol('classic'), getSessionSeed(sessionId));
+
+    await page.evaluate((id) => {
+      sessionStorage.setItem('stroop_session_id', id);
+      sessionStorage.setItem('stroop_protocol_id', 'classic');
+    }, sessionId);
+    await page.goto('/experiment');
+
+    const wordElement = page.getByTestId('stimulus-word').first();
+    await expect(wordElement).toHaveText(expected[0].wordText, { ignoreCase: true });
+    await expect(wordElement).toHaveCSS('color', hexToRgb(expected[0].fontColor));
   });
 
   test('redirects to home if no session on experiment page', async ({ page }) => {
@@ -125,3 +377,27 @@ test.describe('Experiment Flow', () => {
     await expect(page).toHaveURL('/');
   });
 });
+
+test.describe('Touch Layout', () => {
+  test.use({ hasTouch: true, isMobile: true, viewport: { width: 390, height: 844 } });
+
+  test('touch screens get full-width response zones', async ({ page }) => {
+    await page.goto('/');
+    await page.click('button:has-text("Start Experiment")');
+    await expect(page.locator('text=Trial 1 of 20')).toBeVisible();
+    await expect(page.locator('text=Tap the zone')).toBeVisible();
+
+    const zone = page.locator('button[aria-label="green"]');
+    const box = await zone.boundingBox();
+    expect(box!.height).toBeGreaterThan(200);
+
+    await page.getByTestId('stimulus-word').waitFor();
+    await zone.tap();
+    await expect(page.locator('text=Trial 2 of 20')).toBeVisible({ timeout: 2000 });
+  });
+});
+
+function hexToRgb(hex: string): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgb(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255})`;
+}
@@ -0,0 +1,448 @@
+import { test, expect } from '@playwright/test';
+import {
+  ExperimentAction,
+  createExperimentState,
+  experimentReducer,
+  resumeExperimentState,
+} from '@/lib/experiment-state';
+import { getProtocol } from '@/lib/protocols';
+import { ColorKey, ExperimentState } from '@/types';
+
+const keyboard = (timestamp: number) => ({ timestamp, modality: 'keyboard' as const });
+
+const DISPLAY = {
+  windowWidth: 1280,
+  windowHeight: 720,
+  screenWidth: 1440,
+  screenHeight: 900,
+  devicePixelRatio: 2,
+};
+
+function dispatchAll(state: ExperimentState, actions: ExperimentAction[]): ExperimentState {
+  return actions.reduce(experimentReducer, state);
+}
+
+/**
+ * Run the current trial to its end, answering `response` (or letting the
+ * deadline pass for null) rt ms after a stimulus onset at `at`
+ */
+function runTrial(
+  state: ExperimentState,
+  response: ColorKey | 'correct' | null,
+  at: number,
+  rt = 500
+): ExperimentState {
+  let next = state;
+  let now = at;
+  while (next.status === 'fixation' || next.status === 'blank') {
+    next = experimentReducer(next, { type: 'timer', at: (now += 100) });
+  }
+  next = experimentReducer(next, {
+    type: 'onset',
+    onset: { timestamp: now, frameDrops: 0 },
+    at: now,
+  });
+  const trial = next.trials[next.currentTrialIndex];
+  const color = response === 'correct' ? (trial.colorName as ColorKey) : response;
+  next = experimentReducer(
+    next,
+    color
+      ? { type: 'press', response: color, input: keyboard(now + rt), at: now + rt }
+      : { type: 'deadline', at: now + rt }
+  );
+  while (next.status === 'feedback' || next.status === 'interval') {
+    next = experimentReducer(next, { type: 'timer', at: (now += 1000) });
+  }
+  return next;
+}
+
+test.describe('Experiment State Machine', () => {
+  test('classic trials store their result once the interval ends', () => {
+    const state = createExperimentState('state-classic', getProtocol('classic'), 0);
+    expect(state.status).toBe('stimulus');
+    expect(state.phase).toBe('main');
+    expect(state.trials).toHaveLength(20);
+
+    const color = state.trials[0].colorName as ColorKey;
+    const scored = dispatchAll(state, [
+      { type: 'onset', onset: { timestamp: 100, frameDrops: 0 }, at: 101 },
+      { type: 'press', response: color, input: keyboard(550), at: 552 },
+    ]);
+    expect(scored.status).toBe('interval');
+    expect(scored.currentResult?.reaction_time_ms).toBe(450);
+    expect(scored.results).toHaveLength(0);
+
+    const next = experimentReducer(scored, { type: 'timer', at: 1052 });
+    expect(next.status).toBe('stimulus');
+    expect(next.currentTrialIndex).toBe(1);
+    expect(next.results).toHaveLength(1);
+    expect(next.results[0].is_correct).toBe(true);
+    expect(next.results[0].responses).toHaveLength(1);
+    expect(next.timeline.iti).toBe(500);
+    expect(next.transitions.map((t) => [t.from, t.to, t.at])).toEqual([
+      [null, 'stimulus', 0],
+      ['stimulus', 'interval', 552],
+      ['interval', 'stimulus', 1052],
+    ]);
+  });
+
+  test('a press before the onset is reported waits for it', () => {
+    const state = createExperimentState('state-pending', getProtocol('classic'), 0);
+    const color = state.trials[0].colorName as ColorKey;
+
+    const pressed = experimentReducer(state, {
+      type: 'press',
+      response: color,
+      input: keyboard(420),
+      at: 421,
+    });
+    expect(pressed.status).toBe('stimulus');
+    expect(pressed.pendingPress).toBe(0);
+
+    const scored = experimentReducer(pressed, {
+      type: 'onset',
+      onset: { timestamp: 400, frameDrops: 1 },
+      at: 430,
+    });
+    expect(scored.status).toBe('interval');
+    expect(scored.currentResult?.reaction_time_ms).toBe(20);
+    expect(scored.currentResult?.onset_frame_drops).toBe(1);
+  });
+
+  test('a limited exposure records its offset, and responses are taken after it', () => {
+    const state = createExperimentState('state-exposure', getProtocol('brief-exposure'), 0);
+    const color = state.trials[0].colorName as ColorKey;
+    const offset = { timestamp: 1100, frames: 6, duration: 100 };
+
+    const masked = dispatchAll(state, [
+      { type: 'timer', at: 500 },
+      { type: 'offset', offset }, // before the onset is reported: ignored
+      { type: 'onset', onset: { timestamp: 1000, frameDrops: 0 }, at: 1017 },
+      { type: 'offset', offset },
+    ]);
+    expect(masked.status).toBe('stimulus');
+    expect(masked.offset).toEqual(offset);
+
+    const scored = experimentReducer(masked, {
+      type: 'press',
+      response: color,
+      input: keyboard(1650),
+      at: 1651,
+    });
+    expect(scored.currentResult).toMatchObject({
+      reaction_time_ms: 650,
+      exposure_frames: 6,
+      exposure_ms: 100,
+    });
+
+    // Answered before the word came down, so there is no exposure to record
+    const early = runTrial(state, 'correct', 0, 50);
+    expect(early.results[0].exposure_ms).toBeUndefined();
+    expect(early.offset).toBeNull();
+  });
+
+  test('SOA trials record the intended and achieved asynchrony', () => {
+    const state = createExperimentState('state-soa', getProtocol('soa'), 0);
+    const trial = state.trials.find((t) => t.soa < 0)!;
+    const at = { ...state, currentTrialIndex: trial.id };
+
+    // Word first: the onset is the color, reported with how long the word led
+    const colorFirst = dispatchAll(at, [
+      { type: 'timer', at: 500 },
+      {
+        type: 'onset',
+        onset: { timestamp: 1400, frameDrops: 0, componentDelay: -trial.soa + 1 },
+        at: 1417,
+      },
+      { type: 'press', response: trial.colorName as ColorKey, input: keyboard(1950), at: 1951 },
+    ]);
+    expect(colorFirst.currentResult).toMatchObject({
+      reaction_time_ms: 550,
+      soa_ms: trial.soa,
+      achieved_soa_ms: trial.soa - 1,
+    });
+
+    const classic = createExperimentState('state-no-soa', getProtocol('classic'), 0);
+    expect(runTrial(classic, 'correct', 0).results[0].soa_ms).toBeUndefined();
+  });
+
+  test('presses after the response are logged but not scored', () => {
+    const state = createExperimentState('state-late', getProtocol('classic'), 0);
+    const scored = dispatchAll(state, [
+      { type: 'onset', onset: { timestamp: 0, frameDrops: 0 }, at: 0 },
+      { type: 'press', response: 'red', input: keyboard(400), at: 400 },
+      { type: 'press', response: 'green', input: keyboard(600), at: 600 },
+      { type: 'timer', at: 900 },
+    ]);
+
+    const [result] = scored.results;
+    expect(result.user_response).toBe('red');
+    expect(result.responses?.map((r) => [r.response, r.stage, r.accepted])).toEqual([
+      ['red', 'stimulus', true],
+      ['green', 'interval', false],
+    ]);
+  });
+
+  test('timeline stages are measured and a deadline miss gets feedback', () => {
+    const state = createExperimentState('state-extended', getProtocol('extended'), 0);
+    expect(state.status).toBe('fixation');
+    expect(state.phase).toBe('practice');
+
+    const atStimulus = dispatchAll(state, [
+      { type: 'timer', at: 503 },
+      { type: 'timer', at: 705 },
+    ]);
+    expect(atStimulus.status).toBe('stimulus');
+    expect(atStimulus.timeline).toEqual({ fixation: 503, blank: 202 });
+
+    const missed = dispatchAll(atStimulus, [
+      { type: 'onset', onset: { timestamp: 710, frameDrops: 0 }, at: 711 },
+      { type: 'deadline', at: 2710 },
+    ]);
+    expect(missed.status).toBe('feedback');
+    expect(missed.feedback?.timedOut).toBe(true);
+    expect(missed.currentResult?.timed_out).toBe(true);
+    expect(missed.currentResult?.fixation_duration_ms).toBe(503);
+  });
+
+  test('practice ends on its outcome and continues into the main phase', () => {
+    let state = createExperimentState('state-practice', getProtocol('extended'), 0);
+    for (let i = 0; i < 6; i++) state = runTrial(state, 'correct', i * 10000);
+
+    expect(state.status).toBe('practice-outcome');
+    expect(state.practiceOutcome).toEqual({ accuracy: 1, passed: true });
+    expect(state.results).toHaveLength(6);
+
+    const main = experimentReducer(state, { type: 'continue', at: 100000 });
+    expect(main.status).toBe('fixation');
+    expect(main.phase).toBe('main');
+    expect(main.currentTrialIndex).toBe(0);
+    expect(main.trials).toHaveLength(60);
+  });
+
+  test('a failed practice block is repeated with a new order', () => {
+    let state = createExperimentState('state-retry', getProtocol('extended'), 0);
+    const firstOrder = state.trials;
+    for (let i = 0; i < 6; i++) state = runTrial(state, null, i * 10000, 2000);
+
+    expect(state.practiceOutcome?.passed).toBe(false);
+    const retry = experimentReducer(state, { type: 'continue', at: 100000 });
+    expect(retry.phase).toBe('practice');
+    expect(retry.practiceAttempt).toBe(1);
+    expect(retry.trials).not.toEqual(firstOrder);
+  });
+
+  test('the session rests between blocks and completes after the last trial', () => {
+    const gated = createExperimentState('state-blocked', getProtocol('blocked'), 0);
+    let state = experimentReducer(gated, { type: 'continue', at: 0 });
+    for (let i = 0; i < 30; i++) state = runTrial(state, 'correct', i * 10000);
+
+    expect(state.status).toBe('rest');
+    expect(state.currentTrialIndex).toBe(29);
+    expect(experimentReducer(state, { type: 'timer', at: 400000 })).toBe(state);
+
+    state = experimentReducer(state, { type: 'continue', at: 400000 });
+    expect(state.currentTrialIndex).toBe(30);
+    expect(state.trials[30].blockIndex).toBe(1);
+    expect(state.timeline.iti).toBeUndefined();
+
+    let complete = createExperimentState('state-complete', getProtocol('classic'), 0);
+    for (let i = 0; i < 20; i++) complete = runTrial(complete, 'correct', i * 10000);
+    expect(complete.status).toBe('complete');
+    expect(complete.isComplete).toBe(true);
+    expect(complete.results).toHaveLength(20);
+  });
+
+  test('assigned keys are shown before the first trial', () => {
+    const state = createExperimentState('state-keys', getProtocol('counterbalanced'), 0);
+    expect(state.status).toBe('instructions');
+
+    const ignored = experimentReducer(state, {
+      type: 'press',
+      response: 'red',
+      input: keyboard(10),
+      at: 10,
+    });
+    expect(ignored).toBe(state);
+    expect(experimentReducer(state, { type: 'continue', at: 20 }).status).toBe('stimulus');
+  });
+
+  test('time away during a trial flags it with the duration', () => {
+    const state = createExperimentState('state-focus', getProtocol('classic'), 0);
+    const color = state.trials[0].colorName as ColorKey;
+    const next = dispatchAll(state, [
+      { type: 'onset', onset: { timestamp: 0, frameDrops: 0 }, at: 0 },
+      { type: 'focus-lost', at: 100 },
+      { type: 'focus-lost', at: 150 },
+      { type: 'focus-regained', at: 2100 },
+      { type: 'press', response: color, input: keyboard(2500), at: 2500 },
+      { type: 'timer', at: 3000 },
+    ]);
+
+    expect(next.results[0].focus_lost).toBe(true);
+    expect(next.results[0].focus_lost_ms).toBe(2000);
+    expect(next.focusLostMs).toBe(0);
+  });
+
+  test('an absence is split between trials and ignored on waiting screens', () => {
+    const gated = createExperimentState('state-focus-split', getProtocol('blocked'), 0);
+    let state = experimentReducer(gated, { type: 'continue', at: 0 });
+    for (let i = 0; i < 28; i++) state = runTrial(state, 'correct', i * 10000);
+    state = dispatchAll(state, [
+      { type: 'timer', at: 280100 },
+      { type: 'onset', onset: { timestamp: 280100, frameDrops: 0 }, at: 280100 },
+      { type: 'press', response: 'red', input: keyboard(280500), at: 280500 },
+      { type: 'focus-lost', at: 280600 },
+    ]);
+    while (state.status !== 'fixation') {
+      state = experimentReducer(state, { type: 'timer', at: 290000 });
+    }
+    expect(state.results.at(-1)?.focus_lost_ms).toBe(9400);
+    expect(state.focusLostAt).toBe(290000);
+
+    state = experimentReducer(state, { type: 'focus-regained', at: 290300 });
+    state = runTrial(state, 'correct', 300000);
+    expect(state.status).toBe('rest');
+    expect(state.results.at(-1)?.focus_lost_ms).toBe(300);
+
+    const away = dispatchAll(state, [
+      { type: 'focus-lost', at: 400000 },
+      { type: 'focus-regained', at: 460000 },
+      { type: 'continue', at: 470000 },
+    ]);
+    expect(runTrial(away, 'correct', 480000).results.at(-1)?.focus_lost).toBe(false);
+  });
+
+  test('fullscreen protocols wait for fullscreen and pause a trial that leaves it', () => {
+    const state = createExperimentState('state-fullscreen', getProtocol('blocked'), 0);
+    expect(state.status).toBe('fullscreen');
+
+    const running = dispatchAll(state, [
+      { type: 'continue', at: 100 },
+      { type: 'display-measured', display: DISPLAY, timestamp: '2026-01-01T00:00:00.000Z' },
+      { type: 'timer', at: 600 },
+    ]);
+    expect(running.status).toBe('stimulus');
+    expect(running.blockDisplays).toEqual([
+      { ...DISPLAY, phase: 'main', blockIndex: 0, timestamp: '2026-01-01T00:00:00.000Z' },
+    ]);
+
+    const paused = experimentReducer(running, {
+      type: 'fullscreen-exited',
+      at: 700,
+      timestamp: '2026-01-01T00:00:01.000Z',
+    });
+    expect(paused.status).toBe('fullscreen');
+    expect(paused.fullscreenExits).toEqual([
+      { timestamp: '2026-01-01T00:00:01.000Z', phase: 'main', trialIndex: 0, status: 'stimulus' },
+    ]);
+
+    const remeasured = experimentReducer(paused, {
+      type: 'display-measured',
+      display: { ...DISPLAY, windowWidth: 800 },
+      timestamp: '2026-01-01T00:00:02.000Z',
+    });
+    expect(remeasured.blockDisplays).toHaveLength(1);
+
+    const resumed = experimentReducer(paused, { type: 'continue', at: 800 });
+    expect(runTrial(resumed, 'correct', 900).results[0].interrupted).toBe(true);
+  });
+
+  test('a reload before the response restarts that trial and marks it interrupted', () => {
+    let state = createExperimentState('state-resume', getProtocol('classic'), 0);
+    state = runTrial(state, 'correct', 0);
+    state = experimentReducer(state, {
+      type: 'onset',
+      onset: { timestamp: 5000, frameDrops: 0 },
+      at: 5000,
+    });
+
+    const saved: ExperimentState = JSON.parse(JSON.stringify(state));
+    const resumed = resumeExperimentState(saved, 100);
+    expect(resumed.status).toBe('resuming');
+    expect(resumed.currentTrialIndex).toBe(1);
+    expect(resumed.onset).toBeNull();
+    expect(resumed.transitions.at(-1)).toEqual({
+      from: 'stimulus',
+      to: 'resuming',
+      at: 100,
+      trialIndex: 1,
+    });
+
+    const restarted = experimentReducer(resumed, { type: 'continue', at: 200 });
+    const finished = runTrial(restarted, 'correct', 300);
+    expect(finished.results.map((r) => r.interrupted)).toEqual([false, true]);
+  });
+
+  test('a reload after the response keeps it and resumes at the next trial', () => {
+    let state = createExperimentState('state-resume-answered', getProtocol('classic'), 0);
+    state = dispatchAll(state, [
+      { type: 'onset', onset: { timestamp: 0, frameDrops: 0 }, at: 0 },
+      { type: 'press', response: 'red', input: keyboard(400), at: 400 },
+      { type: 'press', response: 'green', input: keyboard(600), at: 600 },
+    ]);
+    expect(state.status).toBe('interval');
+
+    const resumed = resumeExperimentState(JSON.parse(JSON.stringify(state)), 100);
+    expect(resumed.status).toBe('resuming');
+    expect(resumed.currentTrialIndex).toBe(1);
+    expect(resumed.results).toHaveLength(1);
+    expect(resumed.results[0]).toMatchObject({ user_response: 'red', interrupted: true });
+    expect(resumed.results[0].responses).toHaveLength(2);
+
+    const next = experimentReducer(resumed, { type: 'continue', at: 200 });
+    expect(next.status).toBe('stimulus');
+    expect(next.currentTrialIndex).toBe(1);
+    expect(runTrial(next, 'correct', 300).results.map((r) => r.interrupted)).toEqual([true, false]);
+
+    // An answered last practice trial goes on to the practice outcome
+    let practice = createExperimentState('state-resume-feedback', getProtocol('extended'), 0);
+    while (practice.currentTrialIndex < practice.trials.length - 1) {
+      practice = runTrial(practice, 'correct', 0);
+    }
+    const last = practice.trials[practice.currentTrialIndex];
+    practice = dispatchAll(practice, [
+      { type: 'timer', at: 500 },
+      { type: 'timer', at: 700 },
+      { type: 'onset', onset: { timestamp: 700, frameDrops: 0 }, at: 700 },
+      { type: 'press', response: last.colorName as ColorKey, input: keyboard(1200), at: 1200 },
+    ]);
+    expect(practice.status).toBe('feedback');
+
+    const outcome = resumeExperimentState(practice, 100);
+    expect(outcome.status).toBe('practice-outcome');
+    expect(outcome.results).toHaveLength(practice.trials.length);
+    expect(outcome.results.at(-1)?.interrupted).toBe(true);
+  });
+
+  test('leaving fullscreen after the response keeps it and pauses before the next trial', () => {
+    const state = createExperimentState('state-fullscreen-interval', getProtocol('blocked'), 0);
+    const trial = state.trials[0];
+    const answered = dispatchAll(state, [
+      { type: 'continue', at: 100 },
+      { type: 'timer', at: 600 },
+      { type: 'onset', onset: { timestamp: 610, frameDrops: 0 }, at: 611 },
+      { type: 'press', response: trial.colorName as ColorKey, input: keyboard(1100), at: 1101 },
+    ]);
+    expect(answered.status).toBe('interval');
+
+    const paused = experimentReducer(answered, {
+      type: 'fullscreen-exited',
+      at: 1500,
+      timestamp: '2026-01-01T00:00:01.000Z',
+    });
+    expect(paused.status).toBe('fullscreen');
+    expect(paused.currentTrialIndex).toBe(1);
+    expect(paused.results).toHaveLength(1);
+    expect(paused.results[0]).toMatchObject({
+      reaction_time_ms: 490,
+      is_correct: true,
+      interrupted: true,
+    });
+    expect(paused.fullscreenExits[0]).toMatchObject({ trialIndex: 0, status: 'interval' });
+
+    const resumed = experimentReducer(paused, { type: 'continue', at: 2000 });
+    expect(resumed.currentTrialIndex).toBe(1);
+    expect(runTrial(resumed, 'correct', 2100).results[1].interrupted).toBe(false);
+  });
+});
@@ -174,6 +174,246 @@ test.describe('Graph Calculations Correctness', () => {
     expect(legendCount).toBeGreaterThanOrEqual(3);
   });
 
+  test('neutral trials split the effect into interference and facilitation', async ({ page }) => {
+    const sessionId = uuidv4();
+    const mockResults = generateMockResults(sessionId, {
+      congruentMean: 450,
+      incongruentMean: 650,
+      neutralMean: 520,
+      congruentVariance: 20,
+      incongruentVariance: 20,
+      trialsPerCondition: 9,
+      neutralTrials: 9,
+      errorRate: 0,
+    });
+
+    const expectedStats = calculateExpectedStats(mockResults);
+
+    await page.goto('/');
+    await injectMockResults(page, sessionId, mockResults);
+    await page.goto('/results');
+
+    const neutralDisplayed = await getDisplayedStat(page, 'Neutral');
+    const interferenceDisplayed = await getDisplayedStat(page, 'Interference');
+    const facilitationDisplayed = await getDisplayedStat(page, 'Facilitation');
+
+    expect(Math.abs(neutralDisplayed - expectedStats.neutralMean!)).toBeLessThanOrEqual(1);
+    expect(Math.abs(interferenceDisplayed - expectedStats.interferenceEffect!)).toBeLessThanOrEqual(1);
+    expect(Math.abs(facilitationDisplayed - expectedStats.facilitationEffect!)).toBeLessThanOrEqual(1);
+
+    // Effect size chart gains interference and facilitation bars
+    await page.click('button:has-text("Effect Size")');
+    await waitForChartRender(page);
+    await expect(page.locator('.recharts-bar-rectangle')).toHaveCount(6);
+  });
+
+  test('multi-block sessions show a summary per block', async ({ page }) => {
+    const sessionId = uuidv4();
+    const mockResults = generateMockResults(sessionId, {
+      congruentMean: 500,
+      incongruentMean: 500,
+      congruentVariance: 0,
+      incongruentVariance: 0,
+      trialsPerCondition: 6,
+      errorRate: 0,
+    }).map((result, index) => ({
+      ...result,
+      block_index: index % 2,
+      reaction_time_ms: index % 2 === 0 ? 400 : 600,
+    }));
+
+    await page.goto('/');
+    await injectMockResults(page, sessionId, mockResults);
+    await page.goto('/results');
+
+    expect(await getDisplayedStat(page, 'Block 1')).toBe(400);
+    expect(await getDisplayedStat(page, 'Block 2')).toBe(600);
+  });
+
+  test('Stroop effect is broken down by PC context', async ({ page }) => {
+    const sessionId = uuidv4();
+    const mostlyCongruent = generateMockResults(sessionId, {
+      congruentMean: 450,
+      incongruentMean: 650,
+      congruentVariance: 0,
+      incongruentVariance: 0,
+      trialsPerCondition: 6,
+      errorRate: 0,
+    }).map((result) => ({ ...result, congruency_proportion: 0.75 }));
+    const mostlyIncongruent = generateMockResults(sessionId, {
+      congruentMean: 500,
+      incongruentMean: 580,
+      congruentVariance: 0,
+      incongruentVariance: 0,
+      trialsPerCondition: 6,
+      errorRate: 0,
+    }).map((result) => ({ ...result, congruency_proportion: 0.25 }));
+
+    await page.goto('/');
+    await injectMockResults(page, sessionId, [...mostlyCongruent, ...mostlyIncongruent]);
+    await page.goto('/results');
+
+    await expect(page.locator('text=Stroop Effect by PC Context')).toBeVisible();
+    expect(await getDisplayedStat(page, 'Mostly congruent (75%)')).toBe(200);
+    expect(await getDisplayedStat(page, 'Mostly incongruent (25%)')).toBe(80);
+  });
+
+  test('Stroop effect is broken down by SOA', async ({ page }) => {
+    const sessionId = uuidv4();
+    const atSoa = (soa: number, incongruentMean: number) =>
+      generateMockResults(sessionId, {
+        congruentMean: 500,
+        incongruentMean,
+        congruentVariance: 0,
+        incongruentVariance: 0,
+        trialsPerCondition: 6,
+        errorRate: 0,
+      }).map((result) => ({ ...result, soa_ms: soa }));
+
+    await page.goto('/');
+    await injectMockResults(page, sessionId, [
+      ...atSoa(-200, 540),
+      ...atSoa(0, 620),
+      ...atSoa(200, 560),
+    ]);
+    await page.goto('/results');
+
+    await expect(page.locator('text=Stroop Effect by SOA')).toBeVisible();
+    expect(await getDisplayedStat(page, 'Word 200 ms first')).toBe(40);
+    expect(await getDisplayedStat(page, 'Together')).toBe(120);
+    expect(await getDisplayedStat(page, 'Color 200 ms first')).toBe(60);
+  });
+
+  test('misses are reported separately from errors', async ({ page }) => {
+    const sessionId = uuidv4();
+    const responses = generateMockResults(sessionId, {
+      congruentMean: 500,
+      incongruentMean: 600,
+      congruentVariance: 0,
+      incongruentVariance: 0,
+      trialsPerCondition: 6,
+      errorRate: 0,
+    });
+    const misses = responses.slice(0, 3).map((result) => ({
+      ...result,
+      reaction_time_ms: 2000,
+      user_response: null,
+      is_correct: false,
+      timed_out: true,
+    }));
+
+    await page.goto('/');
+    await injectMockResults(page, sessionId, [...responses, ...misses]);
+    await page.goto('/results');
+
+    // Misses neither lower accuracy nor inflate the means
+    expect(await getDisplayedStat(page, 'Accuracy')).toBe(100);
+    expect(await getDisplayedStat(page, 'Congruent')).toBe(500);
+    await expect(page.locator('text=3 missed')).toBeVisible();
+  });
+
+  test('charts show misses as their own category per condition', async ({ page }) => {
+    const sessionId = uuidv4();
+    const responses = generateMockResults(sessionId, {
+      trialsPerCondition: 6,
+      errorRate: 0,
+    });
+    // The first three mock trials are congruent
+    const misses = responses.slice(0, 3).map((result) => ({
+      ...result,
+      reaction_time_ms: 2000,
+      user_response: null,
+      is_correct: false,
+      timed_out: true,
+    }));
+
+    await page.goto('/');
+    await injectMockResults(page, sessionId, [...responses, ...misses]);
+    await page.goto('/results');
+
+    await page.click('button:has-text("Distribution")');
+    await waitForChartRender(page);
+    await expect(page.locator('.recharts-scatter-symbol')).toHaveCount(
+      responses.length + misses.length
+    );
+    await expect(page.locator('text=Congruent (3 missed)')).toBeVisible();
+    await expect(page.locator('text=Incongruent (')).toHaveCount(0);
+
+    // One point per word and condition, plus a miss-rate ring for each
+    // congruent word that had a miss
+    await page.click('button:has-text("Speed vs Accuracy")');
+    await waitForChartRender(page);
+    await expect(page.locator('.recharts-scatter-symbol')).toHaveCount(6 + 3);
+    await expect(page.locator('text=Missed: Congruent 3')).toBeVisible();
+  });
+
+  test('anticipations are excluded like misses', async ({ page }) => {
+    const sessionId = uuidv4();
+    const responses = generateMockResults(sessionId, {
+      congruentMean: 500,
+      incongruentMean: 600,
+      congruentVariance: 0,
+      incongruentVariance: 0,
+      trialsPerCondition: 6,
+      errorRate: 0,
+    });
+    const anticipations = responses.slice(0, 2).map((result) => ({
+      ...result,
+      reaction_time_ms: 90,
+      is_correct: false,
+      anticipated: true,
+    }));
+
+    await page.goto('/');
+    await injectMockResults(page, sessionId, [...responses, ...anticipations]);
+    await page.goto('/results');
+
+    expect(await getDisplayedStat(page, 'Accuracy')).toBe(100);
+    expect(await getDisplayedStat(page, 'Congruent')).toBe(500);
+    await expect(page.locator('text=2 anticipated')).toBeVisible();
+  });
+
+  test('trials with a focus loss are excluded and counted', async ({ page }) => {
+    const sessionId = uuidv4();
+    const responses = generateMockResults(sessionId, {
+      congruentMean: 500,
+      incongruentMean: 600,
+      congruentVariance: 0,
+      incongruentVariance: 0,
+      trialsPerCondition: 6,
+      errorRate: 0,
+    });
+    const interrupted = responses.slice(0, 3).map((result) => ({
+      ...result,
+      reaction_time_ms: 4000,
+      is_correct: false,
+      focus_lost: true,
+    }));
+
+    await page.goto('/');
+    await injectMockResults(page, sessionId, [...responses, ...interrupted]);
+    await page.goto('/results');
+
+    expect(await getDisplayedStat(page, 'Accuracy')).toBe(100);
+    expect(await getDisplayedStat(page, 'Congruent')).toBe(500);
+    await expect(page.locator('text=3 excluded (left the task)')).toBeVisible();
+    // 3 of 15 trials is over the default limit of 10%
+    await expect(page.locator('text=flagged for review')).toBeVisible();
+  });
+
+  test('shows the input most responses were made with', async ({ page }) => {
+    const sessionId = uuidv4();
+    const mockResults = generateMockResults(sessionId, { trialsPerCondition: 5 }).map(
+      (result, i) => ({ ...result, input_modality: i < 8 ? ('touch' as const) : ('mouse' as const) })
+    );
+
+    await page.goto('/');
+    await injectMockResults(page, sessionId, mockResults);
+    await page.goto('/results');
+
+    await expect(page.locator('text=Responses by touch')).toBeVisible();
+  });
+
   test('handles edge case: all correct responses', async ({ page }) => {
     const sessionId = uuidv4();
     const mockResults = generateMockResults(sessionId, {
@@ -0,0 +1,116 @@
+import { test, expect } from '@playwright/test';
+import { getProtocol } from '@/lib/protocols';
+import {
+  LUMINANCE_JITTER,
+  SCREENING_PATCH_COUNT,
+  generateScreeningItems,
+  getPairLuminance,
+  getRelativeLuminance,
+  isExcludedByScreening,
+  scoreScreening,
+} from '@/lib/screening';
+import { createSessionRecord, getPendingSetupStep } from '@/lib/session';
+import { createTimingReport } from '@/lib/timing';
+import { COLORS, ColorKey } from '@/types';
+
+const SESSION_ID = '5f4e3d2c-1b0a-4f9e-8d7c-6b5a4f3e2d1c';
+
+test.describe('Color Screening', () => {
+  test('every pair of stimulus colors is tested both ways round', () => {
+    const protocol = getProtocol('blocked');
+    const items = generateScreeningItems(protocol, SESSION_ID);
+
+    expect(items).toHaveLength(6); // 3 pairs x 2
+    const directions = new Set(items.map((item) => `${item.color}>${item.oddColor}`));
+    expect(directions.size).toBe(6);
+    items.forEach((item) => {
+      expect(item.oddIndex).toBeGreaterThanOrEqual(0);
+      expect(item.oddIndex).toBeLessThan(SCREENING_PATCH_COUNT);
+      expect(item.patches).toHaveLength(SCREENING_PATCH_COUNT);
+    });
+
+    expect(generateScreeningItems(protocol, SESSION_ID)).toEqual(items);
+    expect(generateScreeningItems(getProtocol('classic'), SESSION_ID)).toEqual([]);
+  });
+
+  test('odd and common patches overlap in luminance for every pair', () => {
+    const colors = Object.keys(COLORS) as ColorKey[];
+    const protocol = {
+      ...getProtocol('blocked'),
+      stimulusSet: colors,
+      colorScreening: { ...getProtocol('blocked').colorScreening!, trialsPerPair: 20 },
+    };
+    const ranges = new Map<string, { odd: number[]; common: number[] }>();
+
+    generateScreeningItems(protocol, SESSION_ID).forEach((item) => {
+      const key = [item.color, item.oddColor].sort().join('-');
+      const range = ranges.get(key) ?? { odd: [], common: [] };
+      item.patches.forEach((patch, i) => {
+        const luminance = getRelativeLuminance(patch);
+        const target = getPairLuminance(item.color, item.oddColor);
+        // 8-bit rounding of the channels adds a little on top of the jitter
+        expect(Math.abs(luminance / target - 1)).toBeLessThanOrEqual(LUMINANCE_JITTER + 0.02);
+        (i === item.oddIndex ? range.odd : range.common).push(luminance);
+      });
+      ranges.set(key, range);
+    });
+
+    expect(ranges.size).toBe((colors.length * (colors.length - 1)) / 2);
+    ranges.forEach(({ odd, common }) => {
+      expect(Math.min(...odd)).toBeLessThan(Math.max(...common));
+      expect(Math.min(...common)).toBeLessThan(Math.max(...odd));
+    });
+  });
+
+  test('scoring reports confused pairs and applies the criterion', () => {
+    const protocol = getProtocol('blocked');
+    const items = generateScreeningItems(protocol, SESSION_ID);
+    const answers = items.map((item) =>
+      item.color === 'red' && item.oddColor === 'green'
+        ? (item.oddIndex + 1) % SCREENING_PATCH_COUNT
+        : item.oddIndex
+    );
+    const result = scoreScreening(protocol, items, answers);
+
+    expect(result.correct).toBe(5);
+    expect(result.confusedPairs).toEqual([['green', 'red']]);
+    expect(result.passed).toBe(true); // 5/6 clears 80%
+
+    const failed = scoreScreening(protocol, items, items.map(() => -1));
+    expect(failed.passed).toBe(false);
+    expect(failed.confusedPairs).toHaveLength(3);
+    expect(isExcludedByScreening(protocol, failed)).toBe(true);
+    expect(createSessionRecord(SESSION_ID, protocol, { colorScreening: failed }).excluded).toBe(
+      true
+    );
+    expect(
+      isExcludedByScreening(
+        { ...protocol, colorScreening: { ...protocol.colorScreening!, onFailure: 'flag' } },
+        failed
+      )
+    ).toBe(false);
+  });
+
+  test('setup steps run in order before the session', () => {
+    const protocol = getProtocol('blocked');
+    const timingReport = createTimingReport(Array(10).fill(16.7), 0.1, [5]);
+    const items = generateScreeningItems(protocol, SESSION_ID);
+    const colorScreening = scoreScreening(protocol, items, items.map((item) => item.oddIndex));
+    const displayCalibration = {
+      pixelsPerMm: 3.78,
+      viewingDistanceMm: 570,
+      distanceSource: 'entered' as const,
+    };
+    const none = { timingReport: null, colorScreening: null, displayCalibration: null };
+
+    expect(getPendingSetupStep(protocol, none)).toBe('/calibration');
+    expect(getPendingSetupStep(protocol, { ...none, timingReport })).toBe('/screen-calibration');
+    expect(getPendingSetupStep(protocol, { ...none, timingReport, displayCalibration })).toBe(
+      '/screening'
+    );
+    expect(
+      getPendingSetupStep(protocol, { timingReport, colorScreening, displayCalibration })
+    ).toBeNull();
+    expect(getPendingSetupStep(getProtocol('classic'), none)).toBeNull();
+  });
+});
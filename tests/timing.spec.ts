@@ -0,0 +1,205 @@
+import { test, expect } from '@playwright/test';
+import {
+  assessTimingReport,
+  createTimingReport,
+  getFrameCount,
+  getFrameDuration,
+  watchPaintedOnset,
+} from '@/lib/timing';
+import { createResponseLog } from '@/lib/experiment';
+import { getProtocol } from '@/lib/protocols';
+import {
+  getAchievedSoa,
+  getDelayedComponent,
+  getExposureFrames,
+  getMaskPattern,
+} from '@/lib/stimulus';
+import { ResponsePress } from '@/types';
+
+/**
+ * Run a frame watcher against stubbed animation frames at the given
+ * timestamps, with the element always at full opacity. Returns the number
+ * of frame requests still pending.
+ */
+function runFrames(timestamps: number[], watch: (element: HTMLElement) => void): number {
+  const queue: FrameRequestCallback[] = [];
+  Object.assign(globalThis, {
+    requestAnimationFrame: (callback: FrameRequestCallback) => queue.push(callback),
+    cancelAnimationFrame: () => {},
+    getComputedStyle: () => ({ opacity: '1' }),
+  });
+  try {
+    watch({} as HTMLElement);
+    timestamps.forEach((timestamp) => queue.shift()?.(timestamp));
+  } finally {
+    for (const name of ['requestAnimationFrame', 'cancelAnimationFrame', 'getComputedStyle']) {
+      Reflect.deleteProperty(globalThis, name);
+    }
+  }
+  return queue.length;
+}
+
+test.describe('Timing Diagnostics', () => {
+  test('report summarizes frame intervals, clock and input latency', () => {
+    const intervals = [16.7, 16.6, 16.7, 16.7, 33.4, 16.6, 16.7, 16.7];
+    const report = createTimingReport(intervals, 0.1, [3, 9, 5]);
+
+    expect(report.refreshRate).toBeCloseTo(1000 / 16.7, 1);
+    expect(report.droppedFrameRate).toBeCloseTo(1 / 8);
+    expect(report.frameJitter).toBeGreaterThan(5);
+    expect(report.timerResolution).toBe(0.1);
+    expect(report.eventLatency).toBe(5);
+  });
+
+  test('only requirements that are set are checked', () => {
+    const report = createTimingReport([33.3, 33.3, 33.4, 33.3], 1, [80]);
+
+    expect(assessTimingReport(report, {})).toEqual([]);
+    expect(assessTimingReport(report, { maxTimerResolution: 1 })).toEqual([]);
+
+    const failures = assessTimingReport(report, { minRefreshRate: 50, maxEventLatency: 50 });
+    expect(failures).toHaveLength(2);
+    expect(failures[0]).toContain('30 Hz');
+    expect(failures[1]).toContain('80.0 ms');
+  });
+
+  test('dropped onset frames are counted at the measured refresh rate', () => {
+    const frameDrops = (timestamps: number[], refreshRate?: number) => {
+      const drops: number[] = [];
+      runFrames(timestamps, (element) =>
+        watchPaintedOnset(
+          element,
+          (onset) => drops.push(onset.frameDrops),
+          getFrameDuration(refreshRate)
+        )
+      );
+      return drops[0];
+    };
+
+    // The frame after onset comes 33 ms late at 60 Hz, on time at 30 Hz
+    expect(frameDrops([1000, 1033.3], 30)).toBe(0);
+    expect(frameDrops([1000, 1033.3])).toBe(1);
+    // One refresh missed at 144 Hz
+    expect(frameDrops([1000, 1013.9], 144)).toBe(1);
+    expect(getFrameDuration(0)).toBeCloseTo(1000 / 60);
+  });
+});
+
+test.describe('Limited Exposure', () => {
+  test('durations are counted in whole refreshes at the measured rate', () => {
+    const protocol = getProtocol('brief-exposure');
+
+    expect(getFrameCount(100, 1000 / 60)).toBe(6);
+    expect(getFrameCount(5, 1000 / 60)).toBe(1);
+    expect(getExposureFrames(protocol)).toMatchObject({ frames: 6, maskFrames: 12 });
+    expect(getExposureFrames(protocol, getFrameDuration(144))).toMatchObject({
+      frames: 14,
+      maskFrames: 29,
+    });
+    expect(getExposureFrames(getProtocol('classic'))).toBeNull();
+
+    const withSoa = { ...getProtocol('soa'), exposure: protocol.exposure! };
+    // @ts-expect-error limited exposure can't be combined with SOA mode
+    getExposureFrames(withSoa);
+  });
+
+  test('pattern masks cover the word in every stimulus color', () => {
+    const protocol = getProtocol('brief-exposure');
+    const trial = { id: 4, wordText: 'RED' } as Parameters<typeof getMaskPattern>[1];
+    const mask = getMaskPattern(protocol, trial);
+
+    expect(mask).toHaveLength(5);
+    expect(new Set(mask.map((m) => m.color)).size).toBe(protocol.stimulusSet.length);
+  });
+
+  test('the word and then its mask are taken down on the frames they run out', () => {
+    const events: string[] = [];
+    // 60 Hz from t = 1000, with the frame at 1066.7 dropped
+    const pending = runFrames(
+      [1000, 1016.7, 1033.3, 1050, 1083.3, 1100, 1116.7, 1133.3, 1150, 1166.7],
+      (element) =>
+        watchPaintedOnset(element, (onset) => events.push(`onset ${onset.timestamp}`), 1000 / 60, {
+          exposure: {
+            frames: 6,
+            maskFrames: 3,
+            onOffset: (offset) =>
+              events.push(`offset ${offset.frames} ${offset.duration.toFixed(1)}`),
+            onMaskOffset: () => events.push('mask off'),
+          },
+        })
+    );
+
+    expect(events).toEqual(['onset 1000', 'offset 6 100.0', 'mask off']);
+    expect(pending).toBe(0);
+  });
+});
+
+test.describe('Stimulus Onset Asynchrony', () => {
+  test('the second component is counted in refreshes from the first', () => {
+    const trial = (soa: number) => ({ soa }) as Parameters<typeof getDelayedComponent>[0];
+
+    expect(getDelayedComponent(trial(0))).toBeNull();
+    expect(getDelayedComponent(trial(200))).toMatchObject({ component: 'word', frames: 12 });
+    expect(getDelayedComponent(trial(-400), getFrameDuration(144))).toMatchObject({
+      component: 'patch',
+      frames: 58,
+    });
+    expect(getAchievedSoa(trial(-200), { timestamp: 0, frameDrops: 0, componentDelay: 201 })).toBe(
+      -201
+    );
+  });
+
+  test('a delayed color is shown on its frame and responses are timed from it', () => {
+    const events: string[] = [];
+    const timestamps = Array.from({ length: 15 }, (_, i) => 1000 + (i * 1000) / 60);
+    const pending = runFrames(timestamps, (element) =>
+      watchPaintedOnset(
+        element,
+        (onset) => events.push(`onset ${onset.timestamp.toFixed(1)} ${onset.componentDelay}`),
+        1000 / 60,
+        {
+          delayed: {
+            frames: 12,
+            show: () => events.push('color'),
+            isOnset: true,
+          },
+        }
+      )
+    );
+
+    expect(events).toEqual(['color', 'onset 1200.0 200']);
+    expect(pending).toBe(0);
+  });
+});
+
+test.describe('Response Log', () => {
+  const press = (response: 'red' | 'green', timestamp: number, stage: ResponsePress['stage']) => ({
+    response,
+    input: { timestamp, modality: 'keyboard' as const },
+    stage,
+  });
+
+  test('every press is timed from onset and flagged', () => {
+    const protocol = { ...getProtocol('classic'), anticipationThreshold: 150 };
+    const presses = [
+      press('red', 900, 'fixation'),
+      press('green', 1100, 'stimulus'),
+      press('red', 1500, 'stimulus'),
+      press('green', 1900, 'interval'),
+    ];
+    const log = createResponseLog(protocol, presses, 1000, presses[2]);
+
+    expect(log.map((r) => r.rt_ms)).toEqual([-100, 100, 500, 900]);
+    expect(log.map((r) => r.anticipation)).toEqual([true, true, false, false]);
+    expect(log.map((r) => r.accepted)).toEqual([false, false, true, false]);
+    expect(log[3].stage).toBe('interval');
+  });
+
+  test('without a threshold only presses before onset are anticipations', () => {
+    const presses = [press('red', 990, 'blank'), press('red', 1050, 'stimulus')];
+    const log = createResponseLog(getProtocol('classic'), presses, 1000, null);
+
+    expect(log.map((r) => r.anticipation)).toEqual([true, false]);
+    expect(log.every((r) => !r.accepted)).toBe(true);
+  });
+});
@@ -0,0 +1,369 @@
+import { test, expect } from '@playwright/test';
+import {
+  generateTrials,
+  generatePracticeTrials,
+  reconstructTrials,
+  getColorFromKey,
+} from '@/lib/experiment';
+import {
+  PROTOCOLS,
+  ResponseKeysError,
+  assignResponseMapping,
+  getBlocks,
+  getProtocol,
+  getResponseMapping,
+  getResponseMappings,
+} from '@/lib/protocols';
+import { createSessionRecord, getKeyAssignmentSeed } from '@/lib/session';
+import { sequenceTrials, SequenceConstraintError } from '@/lib/sequencer';
+import { createRandom } from '@/lib/random';
+import { formatStimulusText, getStimulusRendering } from '@/lib/stimulus';
+import { expectedInterval, sampleInterval } from '@/lib/timeline';
+import { Trial } from '@/types';
+
+function longestRun(trials: Trial[]): number {
+  let longest = 0;
+  let run = 0;
+  trials.forEach((trial, i) => {
+    run = i > 0 && trials[i - 1].condition === trial.condition ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+}
+
+test.describe('Trial Generation', () => {
+  test('same seed produces the same sequence', () => {
+    const protocol = getProtocol('classic');
+    const first = generateTrials(protocol, 12345);
+    const second = generateTrials(protocol, 12345);
+
+    expect(second).toEqual(first);
+    expect(first).toHaveLength(protocol.totalTrials);
+  });
+
+  test('different seeds produce different sequences', () => {
+    const protocol = getProtocol('classic');
+    const first = generateTrials(protocol, 1);
+    const second = generateTrials(protocol, 2);
+
+    expect(second).not.toEqual(first);
+  });
+
+  test('session record reconstructs the original sequence', () => {
+    const protocol = getProtocol('extended');
+    const session = createSessionRecord('3f9a1c2e-8b7d-4e6f-a5b4-c3d2e1f0a9b8', protocol);
+
+    expect(reconstructTrials(session)).toEqual(generateTrials(protocol, session.seed));
+  });
+
+  test('respects the protocol congruency proportion', () => {
+    const protocol = getProtocol('classic');
+    const trials = generateTrials(protocol, 42);
+    const congruent = trials.filter((t) => t.condition === 'congruent').length;
+
+    expect(congruent).toBe(Math.round(protocol.totalTrials * protocol.congruentProportion));
+  });
+
+  test('sequence constraints hold for every seed', () => {
+    const protocol = getProtocol('extended');
+
+    for (let seed = 0; seed < 20; seed++) {
+      const trials = generateTrials(protocol, seed);
+      expect(longestRun(trials)).toBeLessThanOrEqual(3);
+
+      for (let i = 1; i < trials.length; i++) {
+        const previous = trials[i - 1];
+        const current = trials[i];
+        const sameStimulus =
+          previous.wordText === current.wordText && previous.colorName === current.colorName;
+        expect(sameStimulus).toBe(false);
+        if (previous.condition === 'incongruent') {
+          expect(current.colorName).not.toBe(previous.wordText);
+        }
+      }
+    }
+  });
+
+  test('sequencer keeps the original trial pool', () => {
+    const pool = generateTrials(getProtocol('classic'), 7);
+    const sequenced = sequenceTrials(pool, { maxConditionRun: 2 }, createRandom(7));
+
+    expect(sequenced).toHaveLength(pool.length);
+    expect([...sequenced].sort((a, b) => a.id - b.id)).toEqual(pool);
+  });
+
+  test('impossible constraints fail with a clear error', () => {
+    const protocol = {
+      ...getProtocol('classic'),
+      congruentProportion: 0.9,
+      sequenceConstraints: { maxConditionRun: 1 },
+    };
+
+    expect(() => generateTrials(protocol, 1)).toThrow(SequenceConstraintError);
+    expect(() => generateTrials(protocol, 1)).toThrow(/runs of at most 1/);
+  });
+
+  test('neutral trials use non-color words', () => {
+    const protocol = {
+      ...getProtocol('classic'),
+      totalTrials: 30,
+      congruentProportion: 1 / 3,
+      neutralProportion: 1 / 3,
+      neutralWords: ['XXXX', 'chair'],
+    };
+    const trials = generateTrials(protocol, 3);
+    const neutral = trials.filter((t) => t.condition === 'neutral');
+
+    expect(neutral).toHaveLength(10);
+    neutral.forEach((t) => expect(['XXXX', 'chair']).toContain(t.wordText));
+    expect(trials.filter((t) => t.condition === 'incongruent')).toHaveLength(10);
+  });
+
+  test('larger stimulus sets derive their response mapping', () => {
+    const protocol = getProtocol('five-color');
+    const mapping = getResponseMapping(protocol);
+
+    expect(mapping.map((m) => m.color)).toEqual(protocol.stimulusSet);
+    expect(getColorFromKey('P', protocol)).toBe('purple');
+    expect(getColorFromKey('o', protocol)).toBeNull();
+
+    const colors = new Set(generateTrials(protocol, 5).map((t) => t.colorName));
+    expect(colors.size).toBe(5);
+  });
+
+  test('rotated key mappings put every color on every key once', () => {
+    const protocol = getProtocol('counterbalanced');
+    const mappings = getResponseMappings(protocol);
+
+    expect(mappings).toHaveLength(4);
+    for (const [position, key] of ['d', 'f', 'j', 'k'].entries()) {
+      const colors = mappings.map((mapping) => mapping[position].color);
+      expect(mappings.every((mapping) => mapping[position].key === key)).toBe(true);
+      expect(new Set(colors)).toEqual(new Set(protocol.stimulusSet));
+    }
+
+    const permuted = getResponseMappings({
+      ...protocol,
+      responseKeys: { keys: ['d', 'f', 'j', 'k'], counterbalance: 'permutation' },
+    });
+    expect(permuted).toHaveLength(24);
+  });
+
+  test('response keys must match the stimulus colors one to one', () => {
+    const protocol = getProtocol('counterbalanced');
+    const withKeys = (keys: string[]) => ({ ...protocol, responseKeys: { keys } });
+
+    expect(() => getResponseMappings(withKeys(['d', 'f', 'j']))).toThrow(ResponseKeysError);
+    expect(() => getResponseMappings(withKeys(['s', 'd', 'f', 'j', 'k']))).toThrow(
+      /5 response keys for 4 stimulus colors/
+    );
+  });
+
+  test('key mapping is assigned from the session id and stored with the session', () => {
+    const sessionId = '7e1d2c3b-4a5f-4e6d-8c7b-9a0f1e2d3c4b';
+    const protocol = assignResponseMapping(
+      getProtocol('counterbalanced'),
+      getKeyAssignmentSeed(sessionId)
+    );
+    const again = assignResponseMapping(
+      getProtocol('counterbalanced'),
+      getKeyAssignmentSeed(sessionId)
+    );
+
+    expect(getResponseMappings(getProtocol('counterbalanced'))).toContainEqual(
+      protocol.responseMapping
+    );
+    expect(again.responseMapping).toEqual(protocol.responseMapping);
+    expect(createSessionRecord(sessionId, protocol).response_mapping).toEqual(
+      protocol.responseMapping
+    );
+    expect(assignResponseMapping(getProtocol('classic'), 3)).toEqual(getProtocol('classic'));
+
+    // Participants are spread over all four mappings
+    const assigned = new Set(
+      Array.from({ length: 40 }, (_, i) =>
+        JSON.stringify(
+          assignResponseMapping(getProtocol('counterbalanced'), getKeyAssignmentSeed(`p${i}`))
+            .responseMapping
+        )
+      )
+    );
+    expect(assigned.size).toBe(4);
+  });
+
+  test('practice blocks are seeded per attempt and marked as practice', () => {
+    const protocol = getProtocol('extended');
+    const first = generatePracticeTrials(protocol, 99);
+
+    expect(first).toHaveLength(protocol.practice!.trialCount);
+    first.forEach((t) => expect(t.phase).toBe('practice'));
+    expect(generatePracticeTrials(protocol, 99)).toEqual(first);
+    expect(generatePracticeTrials(protocol, 99, 1)).not.toEqual(first);
+    expect(generatePracticeTrials(getProtocol('classic'), 99)).toEqual([]);
+  });
+
+  test('blocks keep their own size and congruency ratio', () => {
+    const protocol = getProtocol('blocked');
+    const blocks = getBlocks(protocol);
+    const trials = generateTrials(protocol, 11);
+
+    expect(trials).toHaveLength(protocol.totalTrials);
+    expect(trials.map((t) => t.id)).toEqual(trials.map((_, i) => i));
+    blocks.forEach((block, blockIndex) => {
+      const blockTrials = trials.filter((t) => t.blockIndex === blockIndex);
+      const congruent = blockTrials.filter((t) => t.condition === 'congruent').length;
+
+      expect(blockTrials).toHaveLength(block.trialCount);
+      expect(congruent).toBe(Math.round(block.trialCount * block.congruentProportion));
+      expect(longestRun(blockTrials)).toBeLessThanOrEqual(
+        protocol.sequenceConstraints!.maxConditionRun!
+      );
+    });
+
+    // Blocks run in order
+    const blockOrder = trials.map((t) => t.blockIndex);
+    expect(blockOrder).toEqual([...blockOrder].sort((a, b) => a - b));
+  });
+
+  test('block trial counts add up to the protocol total', () => {
+    for (const protocol of PROTOCOLS) {
+      const total = getBlocks(protocol).reduce((sum, block) => sum + block.trialCount, 0);
+      expect(total, protocol.id).toBe(protocol.totalTrials);
+    }
+  });
+
+  test('list-wide proportion congruency sets the share of congruent trials', () => {
+    for (const [id, proportion] of [
+      ['mostly-congruent', 0.75],
+      ['mostly-incongruent', 0.25],
+    ] as const) {
+      const trials = generateTrials(getProtocol(id), 21);
+      const congruent = trials.filter((t) => t.condition === 'congruent').length;
+
+      expect(congruent / trials.length).toBeCloseTo(proportion, 2);
+      trials.forEach((t) => expect(t.congruencyProportion).toBe(proportion));
+    }
+  });
+
+  test('item-specific proportion congruency applies per word', () => {
+    const protocol = getProtocol('item-specific');
+    const trials = generateTrials(protocol, 8);
+    const sets = { 0.75: ['red', 'green'], 0.25: ['yellow', 'blue'] };
+
+    expect(trials).toHaveLength(protocol.totalTrials);
+    for (const word of protocol.stimulusSet) {
+      const wordTrials = trials.filter((t) => t.wordText === word);
+      const proportion = protocol.itemCongruency![word]!;
+      const congruent = wordTrials.filter((t) => t.condition === 'congruent').length;
+
+      expect(wordTrials).toHaveLength(protocol.totalTrials / protocol.stimulusSet.length);
+      expect(congruent / wordTrials.length).toBe(proportion);
+      wordTrials.forEach((t) => {
+        expect(t.congruencyProportion).toBe(proportion);
+        // Incongruent colors stay within the word's PC set
+        expect(sets[proportion as 0.75 | 0.25]).toContain(t.colorName);
+      });
+    }
+  });
+
+  test('inter-trial intervals are jittered within range and seeded', () => {
+    const protocol = getProtocol('blocked');
+    const trials = generateTrials(protocol, 4);
+    const intervals = trials.map((t) => t.interTrialInterval);
+
+    intervals.forEach((iti) => {
+      expect(iti).toBeGreaterThanOrEqual(300);
+      expect(iti).toBeLessThanOrEqual(1500);
+    });
+    expect(new Set(intervals).size).toBeGreaterThan(10);
+    expect(generateTrials(protocol, 4).map((t) => t.interTrialInterval)).toEqual(intervals);
+
+    // Jitter comes from its own stream, so the order matches an unjittered protocol
+    const unjittered = generateTrials({ ...protocol, timeline: undefined }, 4);
+    expect(unjittered.map((t) => t.wordText)).toEqual(trials.map((t) => t.wordText));
+    unjittered.forEach((t) => expect(t.interTrialInterval).toBe(protocol.interTrialDelay));
+  });
+
+  test('interval distributions sample within their bounds', () => {
+    const random = createRandom(17);
+    const uniform = { type: 'uniform', min: 400, max: 800 } as const;
+    const exponential = { type: 'exponential', min: 300, max: 1500, mean: 400 } as const;
+    const uniformSamples = Array.from({ length: 2000 }, () => sampleInterval(uniform, random));
+    const exponentialSamples = Array.from({ length: 2000 }, () =>
+      sampleInterval(exponential, random)
+    );
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+    expect(Math.min(...uniformSamples)).toBeGreaterThanOrEqual(400);
+    expect(Math.max(...uniformSamples)).toBeLessThanOrEqual(800);
+    expect(Math.min(...exponentialSamples)).toBeGreaterThanOrEqual(300);
+    expect(Math.max(...exponentialSamples)).toBeLessThanOrEqual(1500);
+    expect(Math.abs(mean(uniformSamples) - expectedInterval(uniform))).toBeLessThan(15);
+    expect(Math.abs(mean(exponentialSamples) - expectedInterval(exponential))).toBeLessThan(25);
+  });
+
+  test('stimulus positions are jittered within the region and seeded', () => {
+    const protocol = getProtocol('position-uncertainty');
+    const { width, height } = protocol.stimulusStyle!.positionJitter!;
+    const trials = generateTrials(protocol, 8);
+
+    trials.forEach((t) => {
+      expect(Math.abs(t.offsetX)).toBeLessThanOrEqual(width / 2);
+      expect(Math.abs(t.offsetY)).toBeLessThanOrEqual(height / 2);
+    });
+    expect(new Set(trials.map((t) => t.offsetX)).size).toBeGreaterThan(10);
+    expect(generateTrials(protocol, 8)).toEqual(trials);
+
+    // Positions come from their own stream, so the order matches a centred protocol
+    const centred = generateTrials({ ...protocol, stimulusStyle: undefined }, 8);
+    expect(centred.map((t) => t.wordText)).toEqual(trials.map((t) => t.wordText));
+    centred.forEach((t) => expect([t.offsetX, t.offsetY]).toEqual([0, 0]));
+  });
+
+  test('stimulus rendering applies the protocol style', () => {
+    const protocol = getProtocol('position-uncertainty');
+    const trial = generateTrials(protocol, 8)[0];
+    const rendering = getStimulusRendering(protocol, trial);
+
+    expect(rendering).toEqual({
+      text: trial.wordText.toLowerCase(),
+      letter_case: 'lower',
+      font_family: null,
+      font_weight: 600,
+      ink: trial.fontColor,
+      patch: null,
+      background: '#71717a',
+      outline: { color: '#18181b', width: 1 },
+      offset_x: trial.offsetX,
+      offset_y: trial.offsetY,
+    });
+    expect(getStimulusRendering(getProtocol('classic'), trial)).toMatchObject({
+      text: trial.wordText.toUpperCase(),
+      font_weight: 700,
+      background: null,
+      outline: null,
+    });
+    expect(formatStimulusText('RED', 'title')).toBe('Red');
+    expect(formatStimulusText('xXxX', 'as-written')).toBe('xXxX');
+  });
+
+  test('each SOA gets a full, balanced share of the block', () => {
+    const protocol = getProtocol('soa');
+    const trials = generateTrials(protocol, 5);
+
+    expect(trials).toHaveLength(120);
+    expect(trials.map((t) => t.id)).toEqual(trials.map((_, i) => i));
+    protocol.soa!.values.forEach((soa) => {
+      const atSoa = trials.filter((t) => t.soa === soa);
+      expect(atSoa).toHaveLength(24);
+      expect(atSoa.filter((t) => t.condition === 'congruent')).toHaveLength(12);
+    });
+    generateTrials(getProtocol('classic'), 5).forEach((t) => expect(t.soa).toBe(0));
+
+    // The color moves to a patch behind a neutral word
+    expect(getStimulusRendering(protocol, trials[0])).toMatchObject({
+      ink: '#d4d4d8',
+      patch: trials[0].fontColor,
+    });
+  });
+});
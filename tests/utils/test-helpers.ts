@@ -1,13 +1,22 @@
 import { Page } from '@playwright/test';
+import { v4 as uuidv4 } from 'uuid';
 
 export interface MockTrialResult {
   session_id: string;
   word_text: string;
   font_color: string;
   is_congruent: boolean;
+  condition?: 'congruent' | 'incongruent' | 'neutral';
   reaction_time_ms: number;
-  user_response: string;
+  user_response: string | null;
   is_correct: boolean;
+  timed_out?: boolean;
+  anticipated?: boolean;
+  focus_lost?: boolean;
+  input_modality?: 'keyboard' | 'mouse' | 'touch' | 'pen';
+  block_index?: number;
+  congruency_proportion?: number;
+  soa_ms?: number;
 }
 
 export const COLORS = {
@@ -30,6 +39,8 @@ export function generateMockResults(
     incongruentVariance?: number;
     trialsPerCondition?: number;
     errorRate?: number;
+    neutralTrials?: number;
+    neutralMean?: number;
   } = {}
 ): MockTrialResult[] {
   const {
@@ -39,6 +50,8 @@ export function generateMockResults(
     incongruentVariance = 80,
     trialsPerCondition = 10,
     errorRate = 0.05,
+    neutralTrials = 0,
+    neutralMean = (congruentMean + incongruentMean) / 2,
   } = options;
 
   const results: MockTrialResult[] = [];
@@ -79,6 +92,24 @@ export function generateMockResults(
     });
   }
 
+  // Generate neutral trials (letter string in a color)
+  for (let i = 0; i < neutralTrials; i++) {
+    const colorName = WORDS[i % WORDS.length];
+    const rt = neutralMean + (Math.random() - 0.5) * 2 * congruentVariance;
+    const isCorrect = Math.random() > errorRate;
+
+    results.push({
+      session_id: sessionId,
+      word_text: 'XXXX',
+      font_color: COLORS[colorName],
+      is_congruent: false,
+      condition: 'neutral',
+      reaction_time_ms: Math.round(rt),
+      user_response: isCorrect ? colorName : WORDS[(WORDS.indexOf(colorName) + 1) % 3],
+      is_correct: isCorrect,
+    });
+  }
+
   return results;
 }
 
@@ -86,8 +117,11 @@ export function generateMockResults(
  * Calculate expected statistics from mock results
  */
 export function calculateExpectedStats(results: MockTrialResult[]) {
-  const congruentCorrect = results.filter((r) => r.is_congruent && r.is_correct);
-  const incongruentCorrect = results.filter((r) => !r.is_congruent && r.is_correct);
+  const conditionOf = (r: MockTrialResult) =>
+    r.condition ?? (r.is_congruent ? 'congruent' : 'incongruent');
+  const congruentCorrect = results.filter((r) => conditionOf(r) === 'congruent' && r.is_correct);
+  const incongruentCorrect = results.filter((r) => conditionOf(r) === 'incongruent' && r.is_correct);
+  const neutralCorrect = results.filter((r) => conditionOf(r) === 'neutral' && r.is_correct);
 
   const congruentMean =
     congruentCorrect.reduce((sum, r) => sum + r.reaction_time_ms, 0) / congruentCorrect.length;
@@ -95,6 +129,10 @@ export function calculateExpectedStats(results: MockTrialResult[]) {
     incongruentCorrect.reduce((sum, r) => sum + r.reaction_time_ms, 0) / incongruentCorrect.length;
 
   const stroopEffect = incongruentMean - congruentMean;
+  const neutralMean =
+    neutralCorrect.length > 0
+      ? neutralCorrect.reduce((sum, r) => sum + r.reaction_time_ms, 0) / neutralCorrect.length
+      : null;
   const accuracy = (results.filter((r) => r.is_correct).length / results.length) * 100;
 
   // Calculate per-word stats
@@ -102,10 +140,10 @@ export function calculateExpectedStats(results: MockTrialResult[]) {
 
   for (const word of WORDS) {
     const wordCongruent = results.filter(
-      (r) => r.word_text === word && r.is_congruent && r.is_correct
+      (r) => r.word_text === word && conditionOf(r) === 'congruent' && r.is_correct
     );
     const wordIncongruent = results.filter(
-      (r) => r.word_text === word && !r.is_congruent && r.is_correct
+      (r) => r.word_text === word && conditionOf(r) === 'incongruent' && r.is_correct
     );
 
     const wCongruentMean =
@@ -128,6 +166,9 @@ export function calculateExpectedStats(results: MockTrialResult[]) {
     congruentMean: Math.round(congruentMean),
     incongruentMean: Math.round(incongruentMean),
     stroopEffect: Math.round(stroopEffect),
+    neutralMean: neutralMean === null ? null : Math.round(neutralMean),
+    interferenceEffect: neutralMean === null ? null : Math.round(incongruentMean - neutralMean),
+    facilitationEffect: neutralMean === null ? null : Math.round(neutralMean - congruentMean),
     accuracy: Math.round(accuracy),
     totalTrials: results.length,
     correctTrials: results.filter((r) => r.is_correct).length,
@@ -148,6 +189,57 @@ export async function injectMockResults(page: Page, sessionId: string, results:
   );
 }
 
+export interface MockTimingReport {
+  refreshRate: number;
+  frameJitter: number;
+  droppedFrameRate: number;
+  timerResolution: number;
+  eventLatency: number;
+  userAgent: string;
+}
+
+/**
+ * Start a new session directly, with a timing report, color screening and
+ * screen calibration as if the setup pages had run. Pass null to skip the
+ * screening. Returns the session id.
+ */
+export async function injectSession(
+  page: Page,
+  protocolId: string,
+  timingReport: Partial<MockTimingReport> = {},
+  colorScreening: { accuracy: number; passed: boolean } | null = { accuracy: 1, passed: true }
+): Promise<string> {
+  const sessionId = uuidv4();
+  const report: MockTimingReport = {
+    refreshRate: 60,
+    frameJitter: 0.5,
+    droppedFrameRate: 0,
+    timerResolution: 0.1,
+    eventLatency: 4,
+    userAgent: 'test',
+    ...timingReport,
+  };
+  const screening = colorScreening && {
+    trials: 6,
+    correct: Math.round(colorScreening.accuracy * 6),
+    confusedPairs: colorScreening.passed ? [] : [['green', 'red']],
+    ...colorScreening,
+  };
+  // A 96 dpi display viewed from 57 cm
+  const calibration = { pixelsPerMm: 96 / 25.4, viewingDistanceMm: 570, distanceSource: 'entered' };
+  await page.evaluate(
+    ({ sessionId, protocolId, report, screening, calibration }) => {
+      sessionStorage.setItem('stroop_session_id', sessionId);
+      sessionStorage.setItem('stroop_protocol_id', protocolId);
+      sessionStorage.setItem('stroop_timing_report', JSON.stringify(report));
+      if (screening) sessionStorage.setItem('stroop_color_screening', JSON.stringify(screening));
+      sessionStorage.setItem('stroop_display_calibration', JSON.stringify(calibration));
+    },
+    { sessionId, protocolId, report, screening, calibration }
+  );
+  return sessionId;
+}
+
 /**
  * Clear sessionStorage
  */
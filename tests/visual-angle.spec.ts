@@ -0,0 +1,53 @@
+import { test, expect } from '@playwright/test';
+import { getProtocol } from '@/lib/protocols';
+import {
+  BLIND_SPOT_ANGLE,
+  CREDIT_CARD_WIDTH_MM,
+  degreesToPixels,
+  estimateViewingDistance,
+  getPixelsPerMm,
+  getStimulusFontSize,
+  pixelsToDegrees,
+} from '@/lib/visual-angle';
+import { DisplayCalibration } from '@/types';
+
+// A 96 dpi display viewed from 57 cm, where 1 cm on screen is about 1 degree
+const CALIBRATION: DisplayCalibration = {
+  pixelsPerMm: 96 / 25.4,
+  viewingDistanceMm: 570,
+  distanceSource: 'entered',
+};
+
+test.describe('Visual Angle', () => {
+  test('card width gives pixels per mm', () => {
+    expect(getPixelsPerMm(CREDIT_CARD_WIDTH_MM * 4)).toBeCloseTo(4);
+    expect(getPixelsPerMm(323.5)).toBeCloseTo(96 / 25.4, 2);
+  });
+
+  test('blind-spot offsets give the viewing distance', () => {
+    const pixelsPerMm = 4;
+    const distanceMm = 600;
+    const offset = distanceMm * Math.tan((BLIND_SPOT_ANGLE * Math.PI) / 180) * pixelsPerMm;
+
+    expect(estimateViewingDistance([offset - 20, offset, offset + 20], pixelsPerMm)).toBeCloseTo(
+      distanceMm
+    );
+  });
+
+  test('degrees and pixels convert both ways', () => {
+    expect(degreesToPixels(1, CALIBRATION)).toBeCloseTo(10 * CALIBRATION.pixelsPerMm, 0);
+    expect(pixelsToDegrees(degreesToPixels(2.5, CALIBRATION), CALIBRATION)).toBeCloseTo(2.5);
+
+    const farther = { ...CALIBRATION, viewingDistanceMm: 1140 };
+    expect(degreesToPixels(1, farther)).toBeCloseTo(2 * degreesToPixels(1, CALIBRATION), 1);
+  });
+
+  test('stimulus font size scales cap height to the protocol angle', () => {
+    const protocol = getProtocol('blocked');
+    const fontSize = getStimulusFontSize(protocol, CALIBRATION, 0.7);
+
+    expect(fontSize).toBeCloseTo(degreesToPixels(protocol.stimulusHeight!, CALIBRATION) / 0.7);
+    expect(getStimulusFontSize(protocol, null, 0.7)).toBeUndefined();
+    expect(getStimulusFontSize(getProtocol('classic'), CALIBRATION, 0.7)).toBeUndefined();
+  });
+});
@@ -1,9 +1,20 @@
+export type TrialCondition = 'congruent' | 'incongruent' | 'neutral';
+
+export type TrialPhase = 'practice' | 'main';
+
 export interface Trial {
   id: number;
   wordText: string;
   fontColor: string;
   colorName: string;
-  isCongruent: boolean;
+  condition: TrialCondition;
+  phase: TrialPhase;
+  blockIndex: number;
+  congruencyProportion: number; // PC context: list-wide or item-specific share of congruent trials
+  interTrialInterval: number; // ms of blank before this trial, drawn from the protocol's timeline
+  offsetX: number; // px right of centre, drawn within the protocol's position jitter
+  offsetY: number; // px below centre
+  soa: number; // ms from color onset to word onset in SOA mode; 0 when shown together
 }
 
 export interface TrialResult {
@@ -12,35 +23,408 @@ export interface TrialResult {
   word_text: string;
   font_color: string;
   is_congruent: boolean;
+  condition?: TrialCondition; // missing on rows recorded before neutral trials existed
   reaction_time_ms: number;
-  user_response: string;
+  user_response: string | null; // null when the trial timed out
   is_correct: boolean;
+  timed_out?: boolean; // no response before the deadline; reaction_time_ms is then the deadline
+  input_modality?: InputModality; // missing on misses
+  phase?: TrialPhase; // missing on rows recorded before practice blocks existed
+  block_index?: number; // 0-based; missing on rows recorded before multi-block sessions
+  trial_index?: number; // 0-based position within the phase's trial sequence
+  congruency_proportion?: number; // PC context of the trial (list-wide or item-specific)
+  iti_duration_ms?: number; // measured blank before this trial; missing after a break
+  fixation_duration_ms?: number; // measured
+  blank_duration_ms?: number; // measured
+  stimulus_onset_ms?: number; // performance.now() time of the first frame with the word fully painted
+  onset_frame_drops?: number; // frames missed from mount through the frame after onset
+  exposure_frames?: number; // refreshes the word was shown for, under limited exposure
+  exposure_ms?: number; // onset to the first frame without the word; missing if answered sooner
+  soa_ms?: number; // planned color-to-word onset asynchrony, in SOA mode
+  achieved_soa_ms?: number; // measured between the painted onsets
+  anticipated?: boolean; // scored response came faster than the anticipation threshold
+  responses?: RecordedResponse[]; // every press from fixation to the next trial, in order
+  interrupted?: boolean; // cut off by a reload or fullscreen exit: rerun, or kept if answered
+  focus_lost?: boolean; // page hidden, blurred or out of fullscreen during the trial; not analysed
+  focus_lost_ms?: number; // total time away during the trial
+  stimulus_rendering?: StimulusRendering; // how the word was drawn
+  created_at?: string;
+}
+
+export interface SessionRecord {
+  session_id: string;
+  protocol_id: string;
+  seed: number;
+  timing_report?: TimingReport | null; // from /calibration, when it was run
+  response_mapping?: ResponseKey[]; // keys the participant used, in button order
+  response_layout?: ResponseLayout; // buttons with keyboard shortcuts, or touch zones
+  device?: DeviceInfo; // as detected when the session started
+  color_screening?: ColorScreeningResult | null; // from /screening, when the protocol has one
+  display_calibration?: DisplayCalibration | null; // from /screen-calibration, when run
+  excluded?: boolean; // left out of the analysis, e.g. after failing color screening
+  focus_loss_trials?: number; // main trials with a focus loss, set when the session ends
+  inattentive?: boolean; // more focus-loss trials than the protocol allows
+  fullscreen_exits?: FullscreenExit[]; // when the protocol requires fullscreen
+  block_displays?: BlockDisplay[]; // window and screen size at the start of each block
   created_at?: string;
 }
 
+// Where a session is in its lifecycle. The trial statuses run in order
+// (fixation and blank only when the timeline has them); the rest wait for
+// the participant to continue, except complete.
+export type ExperimentStatus =
+  | 'instructions' // assigned response keys, before the first trial
+  | 'resuming' // reloaded mid-trial, the trial starts over on continue
+  | 'fullscreen' // held until the participant enters fullscreen; a cut-off trial starts over
+  | 'fixation'
+  | 'blank'
+  | 'stimulus'
+  | 'feedback'
+  | 'interval' // blank after the response, before the result is stored
+  | 'rest'
+  | 'practice-outcome'
+  | 'complete';
+
+export interface StateTransition {
+  from: ExperimentStatus | null; // null for the first status of a session
+  to: ExperimentStatus;
+  at: number; // performance.now() clock
+  trialIndex: number;
+}
+
+export interface FullscreenExit {
+  timestamp: string; // ISO
+  phase: TrialPhase;
+  trialIndex: number;
+  status: ExperimentStatus; // where the session was when fullscreen was left
+}
+
+export interface DisplaySize {
+  windowWidth: number; // CSS px, inner size
+  windowHeight: number; // CSS px, inner size
+  screenWidth: number; // CSS px
+  screenHeight: number; // CSS px
+  devicePixelRatio: number;
+}
+
+export interface BlockDisplay extends DisplaySize {
+  phase: TrialPhase;
+  blockIndex: number;
+  timestamp: string; // ISO, when the block's first trial started
+}
+
+export interface PracticeOutcome {
+  accuracy: number;
+  passed: boolean;
+}
+
+// Progress of a running session, saved as it changes so a reload can
+// resume it
 export interface ExperimentState {
   sessionId: string;
-  currentTrialIndex: number;
-  trials: Trial[];
+  protocolId: string;
+  phase: TrialPhase;
+  practiceAttempt: number;
+  currentTrialIndex: number; // trial running, or the last one during rest and outcome screens
+  trials: Trial[]; // sequence of the current phase
   results: TrialResult[];
   isComplete: boolean;
+  status: ExperimentStatus;
+  transitions: StateTransition[];
+  onset: StimulusOnset | null; // painted onset of the current stimulus, once reported
+  offset: StimulusOffset | null; // end of a limited exposure, once reported
+  presses: ResponsePress[]; // every press since the current trial started
+  pendingPress: number | null; // index of a press made before the onset was reported
+  acceptedPress: number | null; // index of the press the trial was scored on
+  timeline: { iti?: number; fixation?: number; blank?: number }; // measured, for the result
+  currentResult: TrialResult | null; // scored, stored once the interval ends
+  feedback: { correct: boolean; timedOut: boolean; color: ColorKey } | null;
+  practiceOutcome: PracticeOutcome | null;
+  interrupted: boolean; // the current trial restarts one cut off by a reload or fullscreen exit
+  focusLostAt: number | null; // when the page lost focus, while it is away
+  focusLostMs: number; // time away during the current trial so far
+  fullscreenExits: FullscreenExit[];
+  blockDisplays: BlockDisplay[]; // one per block, measured as it starts
 }
 
 export interface ResultsSummary {
   congruentAvg: number;
   incongruentAvg: number;
+  neutralAvg: number | null; // null when the session had no neutral trials
   stroopEffect: number;
+  interferenceEffect: number | null; // incongruent - neutral
+  facilitationEffect: number | null; // neutral - congruent
   totalTrials: number;
   correctTrials: number;
-  accuracy: number;
+  missedTrials: number; // timed out; excluded from RTs and accuracy
+  anticipatedTrials: number; // faster than the anticipation threshold; excluded likewise
+  focusLostTrials: number; // the page lost focus during the trial; excluded likewise
+  accuracy: number; // % of trials with a usable response
 }
 
-export type ColorKey = 'red' | 'green' | 'yellow';
+export interface ColorDefinition {
+  hex: string;
+  name: string;
+  key: string; // default response key
+}
 
-export const COLORS: Record<ColorKey, { hex: string; name: string }> = {
-  red: { hex: '#f43f5e', name: 'red' },
-  green: { hex: '#34d399', name: 'green' },
-  yellow: { hex: '#fbbf24', name: 'yellow' },
-};
+// Every color a protocol may use. Add entries here to extend the stimulus set.
+export const COLORS = {
+  red: { hex: '#f43f5e', name: 'red', key: 'r' },
+  green: { hex: '#34d399', name: 'green', key: 'g' },
+  yellow: { hex: '#fbbf24', name: 'yellow', key: 'y' },
+  blue: { hex: '#60a5fa', name: 'blue', key: 'b' },
+  purple: { hex: '#c084fc', name: 'purple', key: 'p' },
+  orange: { hex: '#fb923c', name: 'orange', key: 'o' },
+} satisfies Record<string, ColorDefinition>;
 
-export const WORDS: ColorKey[] = ['red', 'green', 'yellow'];
+export type ColorKey = keyof typeof COLORS;
+
+export interface ResponseKey {
+  color: ColorKey;
+  key: string;
+}
+
+// How colors are assigned to the response keys across participants:
+// one fixed order, every cyclic shift (a Latin square), or every order
+export type KeyCounterbalancing = 'none' | 'rotation' | 'permutation';
+
+export interface ResponseKeysConfig {
+  keys: string[]; // in keyboard order, one per stimulus color
+  counterbalance?: KeyCounterbalancing; // default 'none'
+}
+
+export interface SequenceConstraints {
+  maxConditionRun?: number; // max consecutive trials of the same condition
+  noStimulusRepeat?: boolean; // no identical word/color pair back-to-back
+  noNegativePriming?: boolean; // previous distractor word never becomes the next ink color
+  balanceTransitions?: boolean; // condition-to-condition transitions near their expected counts
+}
+
+export interface PracticeConfig {
+  trialCount: number;
+  feedbackDuration: number; // ms the correct/incorrect message stays up
+  minAccuracy: number; // 0-1, repeat the block below this
+  maxAttempts: number; // continue to the main block after this many tries regardless
+}
+
+export interface BlockConfig {
+  trialCount: number;
+  congruentProportion: number; // 0-1, overrides the protocol's ratio for this block
+  neutralProportion?: number; // 0-1
+}
+
+export interface RestBreakConfig {
+  minDuration?: number; // ms before the participant can continue
+  showSummary?: boolean; // show the finished block's mean RT and accuracy
+}
+
+export interface BlockSummary {
+  blockIndex: number;
+  meanReactionTime: number | null; // correct trials only
+  accuracy: number; // 0-100
+}
+
+export interface SoaSummary {
+  soa: number; // ms from color onset to word onset
+  congruentAvg: number | null; // correct trials only
+  incongruentAvg: number | null;
+  neutralAvg: number | null;
+  stroopEffect: number | null; // null unless both conditions were answered correctly
+}
+
+export interface CongruencyContextSummary {
+  congruencyProportion: number;
+  congruentAvg: number | null; // correct trials only
+  incongruentAvg: number | null;
+  stroopEffect: number | null; // null unless both conditions were answered correctly
+}
+
+export interface ExposureConfig {
+  duration: number; // ms the word is shown, rounded to whole refreshes
+  mask: 'pattern' | 'blank'; // what replaces the word; responses are still taken
+  maskDuration?: number; // ms the pattern mask stays up; until the response when omitted
+}
+
+// Color and word shown apart: the color as a patch behind the word, the
+// word in neutral ink (Glaser & Glaser). Responses are timed from the color.
+export interface SoaConfig {
+  values: number[]; // ms from color onset to word onset; negative shows the word first
+  wordColor?: string; // CSS color of the word's ink, default light gray
+}
+
+export interface ResponseDeadlineConfig {
+  duration: number; // ms from stimulus onset before the trial is recorded as a miss
+  tooSlowDuration?: number; // ms a "too slow" message stays up; no message when omitted
+}
+
+export type IntervalDistribution =
+  | { type: 'fixed'; duration: number }
+  | { type: 'uniform'; min: number; max: number }
+  | { type: 'exponential'; min: number; max: number; mean: number }; // mean of the part above min
+
+export interface TrialTimelineConfig {
+  fixationDuration: number; // ms the fixation cross is shown; 0 skips it
+  blankDuration: number; // ms of blank screen between fixation and stimulus; 0 skips it
+  interTrialInterval: IntervalDistribution; // blank after each response, drawn per trial
+}
+
+export type InputModality = 'keyboard' | 'mouse' | 'touch' | 'pen';
+
+// Keyboard-first buttons, or large fixed zones for touch screens
+export type ResponseLayout = 'buttons' | 'touch';
+
+export type LetterCase = 'upper' | 'lower' | 'title' | 'as-written';
+
+export interface StimulusOutline {
+  color: string; // CSS color
+  width: number; // px
+}
+
+export interface StimulusStyleConfig {
+  fontFamily?: string; // CSS font-family; the app's sans when omitted
+  fontWeight?: number; // default 700
+  letterCase?: LetterCase; // default 'upper'
+  background?: string; // CSS color of the page during the session
+  outline?: StimulusOutline; // stroke around the letters
+  positionJitter?: { width: number; height: number }; // px region the word's centre is drawn in
+}
+
+export interface StimulusRendering {
+  text: string; // as displayed, after the letter case is applied
+  letter_case: LetterCase;
+  font_family: string | null; // null for the app's sans
+  font_weight: number;
+  ink: string; // color of the letters
+  patch: string | null; // color of the patch behind the word, in SOA mode
+  background: string | null; // null for the default page background
+  outline: StimulusOutline | null;
+  offset_x: number; // px right of centre
+  offset_y: number; // px below centre
+}
+
+export interface DisplayCalibration {
+  pixelsPerMm: number; // CSS px per mm, from matching a credit card on screen
+  viewingDistanceMm: number;
+  distanceSource: 'entered' | 'blind-spot'; // measured by the participant, or estimated
+  blindSpotOffsets?: number[]; // CSS px from fixation, one per blind-spot sweep
+}
+
+export interface DeviceInfo {
+  pointer: 'fine' | 'coarse' | 'none'; // primary pointer, from the (pointer) media query
+  maxTouchPoints: number;
+  screenWidth: number; // CSS px
+  screenHeight: number; // CSS px
+}
+
+export interface ResponseInput {
+  timestamp: number; // event.timeStamp of the keydown/pointerdown, same clock as performance.now()
+  modality: InputModality;
+}
+
+// Part of a trial a key press fell in: its pre-stimulus stages, the
+// stimulus itself, or the feedback and blank that follow the response
+export type ResponseStage = 'fixation' | 'blank' | 'stimulus' | 'feedback' | 'interval';
+
+export interface ResponsePress {
+  response: ColorKey;
+  input: ResponseInput;
+  stage: ResponseStage;
+}
+
+export interface RecordedResponse {
+  response: ColorKey;
+  rt_ms: number; // from stimulus onset; negative for presses before it
+  modality: InputModality;
+  stage: ResponseStage;
+  anticipation: boolean; // before onset or faster than the protocol's anticipation threshold
+  accepted: boolean; // the response the trial was scored on
+}
+
+export interface StimulusOnset {
+  timestamp: number; // rAF time of the first frame with the stimulus at full opacity
+  frameDrops: number; // refreshes missed from mount through the frame after onset
+  componentDelay?: number; // ms from the first paint to a component shown after it (SOA)
+}
+
+export interface StimulusOffset {
+  timestamp: number; // rAF time of the first frame without the stimulus
+  frames: number; // refreshes from onset to offset
+  duration: number; // ms from onset to offset
+}
+
+export interface TimingReport {
+  refreshRate: number; // Hz, from the median frame interval
+  frameJitter: number; // ms, standard deviation of frame intervals
+  droppedFrameRate: number; // 0-1, share of intervals over 1.5x the median
+  timerResolution: number; // ms, smallest performance.now() step
+  eventLatency: number; // ms, median delay from event.timeStamp to the handler
+  userAgent: string;
+}
+
+export interface ColorScreeningConfig {
+  trialsPerPair: number; // odd-one-out items for each pair of stimulus colors
+  minAccuracy: number; // 0-1
+  onFailure: 'flag' | 'exclude'; // exclude also leaves the session out of the analysis
+}
+
+export interface ColorScreeningResult {
+  trials: number;
+  correct: number;
+  accuracy: number; // 0-1
+  confusedPairs: [ColorKey, ColorKey][]; // pairs with at least one wrong answer
+  passed: boolean;
+}
+
+export interface TimingRequirements {
+  minRefreshRate?: number; // Hz
+  maxFrameJitter?: number; // ms
+  maxDroppedFrameRate?: number; // 0-1
+  maxTimerResolution?: number; // ms
+  maxEventLatency?: number; // ms
+  blockOnFailure?: boolean; // refuse to start instead of only warning
+}
+
+// Limited exposure and SOA mode both schedule when the word is up; a
+// protocol uses at most one of them
+type StimulusSchedule =
+  | {
+      exposure?: ExposureConfig; // the word stays up until the response when omitted
+      soa?: never;
+    }
+  | {
+      soa: SoaConfig; // color and word appear together when omitted
+      exposure?: never;
+    };
+
+export type ExperimentProtocol = ProtocolSettings & StimulusSchedule;
+
+interface ProtocolSettings {
+  id: string;
+  name: string;
+  description: string;
+  totalTrials: number;
+  congruentProportion: number; // 0-1, share of trials where word matches color
+  neutralProportion?: number; // 0-1, share of trials with a non-color word
+  neutralWords?: string[]; // defaults to ['XXXX']
+  itemCongruency?: Partial<Record<ColorKey, number>>; // 0-1 per word, overrides the list-wide ratio
+  interTrialDelay: number; // ms between trials when there is no timeline
+  timeline?: TrialTimelineConfig; // fixed interTrialDelay and no fixation when omitted
+  requireFullscreen?: boolean; // hold the session until fullscreen, pause when it is left
+  stimulusHeight?: number; // degrees of visual angle, capital letters; needs /screen-calibration
+  stimulusStyle?: StimulusStyleConfig; // bold, uppercase and centred on the dark theme when omitted
+  animateStimulus?: boolean; // 150 ms fade-in, default true; onset is taken once fully opaque
+  timingRequirements?: TimingRequirements; // run /calibration before the session when set
+  colorScreening?: ColorScreeningConfig; // run /screening before the session when set
+  responseDeadline?: ResponseDeadlineConfig; // wait indefinitely when omitted
+  anticipationThreshold?: number; // ms; faster responses are flagged as anticipations
+  maxFocusLossRate?: number; // 0-1, default 0.1: share of focus-loss trials that marks the session
+  stimulusSet: ColorKey[]; // colors used both as words and as font colors
+  responseMapping?: ResponseKey[]; // in button order; derived from stimulusSet when omitted
+  responseKeys?: ResponseKeysConfig; // keys assigned per participant; replaces responseMapping
+  responseLayout?: ResponseLayout | 'auto'; // default 'auto': touch zones on touch-first devices
+  sequenceConstraints?: SequenceConstraints; // plain shuffle when omitted
+  practice?: PracticeConfig; // no practice block when omitted
+  blocks?: BlockConfig[]; // trial counts must add up to totalTrials; one block when omitted
+  restBreak?: RestBreakConfig; // shown between blocks
+}